@@ -1,13 +1,25 @@
 
 import React, { useState, useEffect } from 'react';
 import { HashRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
-import { Layout, Settings as SettingsIcon, Ticket, Layers, Plus, Globe, HardDrive } from 'lucide-react';
-import { Event, Asset, AppSettings } from './types';
+import { Layout, Settings as SettingsIcon, Ticket, Layers, Plus, Globe, HardDrive, ClipboardList, BadgePercent, Webhook, Mic, Building2 } from 'lucide-react';
+import { Event, Asset, AppSettings, Speaker, Venue } from './types';
 import { Dashboard } from './components/Dashboard';
 import { EventEditor } from './components/EventEditor';
 import { PublicView } from './components/PublicView';
 import { AssetManager } from './components/AssetManager';
 import { Settings } from './components/Settings';
+import { Waitlist } from './components/Waitlist';
+import { Bookings } from './components/Bookings';
+import { PromoCodes } from './components/PromoCodes';
+import { WebhookLog } from './components/WebhookLog';
+import { TicketView } from './components/TicketView';
+import { CheckIn } from './components/CheckIn';
+import { ManageBooking } from './components/ManageBooking';
+import { Announcements } from './components/Announcements';
+import { SessionRosters } from './components/SessionRosters';
+import { Speakers } from './components/Speakers';
+import { SpeakerProfile } from './components/SpeakerProfile';
+import { Venues } from './components/Venues';
 import { LocalDB } from './services/localDb';
 import { PublishService } from './services/publishService';
 
@@ -17,6 +29,8 @@ const SEED_EVENTS: Event[] = [];
 const App: React.FC = () => {
   const [events, setEvents] = useState<Event[]>([]);
   const [globalAssets, setGlobalAssets] = useState<Asset[]>([]);
+  const [speakers, setSpeakers] = useState<Speaker[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
   const [settings, setSettings] = useState<AppSettings>({
       id: 'global',
       brandColor: '#0205b7',
@@ -34,6 +48,8 @@ const App: React.FC = () => {
         let loadedEvents = await LocalDB.getAllEvents();
         let loadedSettings = await LocalDB.getSettings();
         let loadedAssets = await LocalDB.getAllAssets();
+        let loadedSpeakers = await LocalDB.getAllSpeakers();
+        let loadedVenues = await LocalDB.getAllVenues();
 
         // AUTO-CLEANUP: Remove legacy mock events if they exist in the DB
         const legacyIds = ['1', '2'];
@@ -61,6 +77,8 @@ const App: React.FC = () => {
                 if (response.ok) {
                     const data = await response.json();
                     loadedEvents = data.events || [];
+                    loadedSpeakers = data.speakers || [];
+                    loadedVenues = data.venues || [];
                     if (data.settings) setSettings(data.settings);
                     setIsVisitorMode(true);
                     console.log("Loaded from events.json (Visitor Mode)");
@@ -90,6 +108,8 @@ const App: React.FC = () => {
 
         setEvents(loadedEvents);
         setGlobalAssets(processedAssets);
+        setSpeakers(loadedSpeakers);
+        setVenues(loadedVenues);
       } catch (err) {
           console.error("Initialization failed:", err);
       } finally {
@@ -111,10 +131,28 @@ const App: React.FC = () => {
     setEvents(prev => prev.map(e => e.id === updatedEvent.id ? updatedEvent : e));
   };
 
+  // Series edits save several occurrences at once and may drop some
+  const handleSaveSeries = async (saved: Event[], removedIds: string[] = []) => {
+    if (isVisitorMode) return;
+    for (const event of saved) await LocalDB.saveEvent(event);
+    for (const id of removedIds) await LocalDB.deleteEvent(id);
+    setEvents(prev => mergeEvents(prev, saved, removedIds));
+  };
+
   const handleDeleteEvent = async (id: string) => {
     if (isVisitorMode) return;
     await LocalDB.deleteEvent(id);
-    setEvents(prev => prev.filter(e => e.id !== id));
+    // A deleted occurrence becomes an exception, so regenerating its series doesn't bring it back
+    const deleted = events.find(e => e.id === id);
+    const siblings = deleted?.seriesId && deleted.recurrence
+        ? events.filter(e => e.seriesId === deleted.seriesId && e.id !== id)
+        : [];
+    const updatedSiblings = siblings.map(e => ({
+        ...e,
+        recurrence: e.recurrence && { ...e.recurrence, exceptions: [...(e.recurrence.exceptions || []), deleted!.date.slice(0, 10)] }
+    }));
+    for (const sibling of updatedSiblings) await LocalDB.saveEvent(sibling);
+    setEvents(prev => mergeEvents(prev, updatedSiblings, [id]));
   };
 
   const handleAddAsset = async (asset: Asset, fileBlob?: Blob) => {
@@ -130,43 +168,76 @@ const App: React.FC = () => {
     setGlobalAssets(prev => prev.filter(a => a.id !== id));
   };
 
+  const handleSaveSpeaker = async (speaker: Speaker) => {
+    if (isVisitorMode) return;
+    await LocalDB.saveSpeaker(speaker);
+    setSpeakers(prev => prev.some(s => s.id === speaker.id) ? prev.map(s => s.id === speaker.id ? speaker : s) : [...prev, speaker]);
+  };
+
+  // Events keep the id; pages skip speakers that are no longer in the library
+  const handleDeleteSpeaker = async (id: string) => {
+    if (isVisitorMode) return;
+    await LocalDB.deleteSpeaker(id);
+    setSpeakers(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleSaveVenue = async (venue: Venue) => {
+    if (isVisitorMode) return;
+    await LocalDB.saveVenue(venue);
+    setVenues(prev => prev.some(v => v.id === venue.id) ? prev.map(v => v.id === venue.id ? venue : v) : [...prev, venue]);
+  };
+
+  // Events keep their location text, so they still read correctly without the venue
+  const handleDeleteVenue = async (id: string) => {
+    if (isVisitorMode) return;
+    await LocalDB.deleteVenue(id);
+    setVenues(prev => prev.filter(v => v.id !== id));
+  };
+
   const handleUpdateSettings = async (newSettings: AppSettings) => {
       if (isVisitorMode) return;
       await LocalDB.saveSettings(newSettings);
       setSettings(newSettings);
   };
 
-  const handlePublish = async (currentEvent?: Event) => {
+  // Resolves with the server's copy of the (first) current event, which may carry new Stripe IDs.
+  // A series edit passes every occurrence it saved and the ids of any it dropped.
+  const handlePublish = async (current?: Event | Event[], removedIds: string[] = []): Promise<Event | undefined> => {
     if (isVisitorMode) return;
+    const currentEvents = current ? [current].flat() : [];
     try {
         let eventsToPublish = [...events];
         // If we are currently editing an event, ensure we publish its latest version
         // regardless of React state update timing.
-        if (currentEvent) {
-             await LocalDB.saveEvent(currentEvent); // Ensure saved locally
-             const index = eventsToPublish.findIndex(e => e.id === currentEvent.id);
-             if (index >= 0) {
-                 eventsToPublish[index] = currentEvent;
-             } else {
-                 eventsToPublish.unshift(currentEvent);
-             }
+        if (currentEvents.length > 0 || removedIds.length > 0) {
+             for (const event of currentEvents) await LocalDB.saveEvent(event); // Ensure saved locally
+             for (const id of removedIds) await LocalDB.deleteEvent(id);
+             eventsToPublish = mergeEvents(eventsToPublish, currentEvents, removedIds);
              // Update local state to match
              setEvents(eventsToPublish);
         }
 
-        await PublishService.publishEvents(eventsToPublish, settings, globalAssets).then(async (publishedEvents) => {
-            // If server returned updated events (with Stripe IDs), sync them back to LocalDB
-            if (publishedEvents && publishedEvents.length > 0) {
-                // We need to update local state and IndexedDB with the new IDs
-                // so subsequent publishes update the same Stripe Product instead of creating new ones.
-                console.log("Syncing published events back to local DB...", publishedEvents);
-                
-                for (const remoteEvent of publishedEvents) {
-                    await LocalDB.saveEvent(remoteEvent);
-                }
-                setEvents(publishedEvents);
+        // Event times were entered in this browser's zone unless the studio picked one
+        const publishedSettings = { ...settings, timezone: settings.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone };
+        // Speaker photos are uploaded first, and their public URLs kept locally
+        const publishedSpeakers = await PublishService.prepareSpeakers(speakers, globalAssets);
+        for (const speaker of publishedSpeakers.filter(s => !speakers.includes(s))) await LocalDB.saveSpeaker(speaker);
+        setSpeakers(publishedSpeakers);
+        const { events: publishedEvents, warnings } = await PublishService.publishEvents(eventsToPublish, publishedSettings, globalAssets, publishedSpeakers, venues);
+        if (warnings.length > 0) alert(`Published, but some events share a room:\n\n${warnings.join('\n')}`);
+        // If server returned updated events (with Stripe IDs), sync them back to LocalDB
+        if (publishedEvents && publishedEvents.length > 0) {
+            // We need to update local state and IndexedDB with the new IDs
+            // so subsequent publishes update the same Stripe Product instead of creating new ones,
+            // and a changed price is sold through its replacement Stripe Price.
+            console.log("Syncing published events back to local DB...", publishedEvents);
+            
+            for (const remoteEvent of publishedEvents) {
+                await LocalDB.saveEvent(remoteEvent);
             }
-        });
+            setEvents(publishedEvents);
+        }
+        return currentEvents[0] && publishedEvents.find(e => e.id === currentEvents[0].id);
     } catch (e) {
         console.error("Publishing failed:", e);
         throw e;
@@ -190,29 +261,69 @@ const App: React.FC = () => {
       } as React.CSSProperties}>
         <Routes>
           {/* Public Facing Routes */}
-          <Route path="/public" element={<PublicView events={events.filter(e => e.status === 'published')} settings={settings} />} />
-          <Route path="/public/:id" element={<PublicView events={events} detailMode settings={settings} />} />
+          <Route path="/public" element={<PublicView events={events.filter(e => e.status === 'published')} settings={settings} speakers={speakers} venues={venues} />} />
+          <Route path="/public/:id" element={<PublicView events={events} detailMode settings={settings} speakers={speakers} venues={venues} />} />
+          <Route path="/speaker/:id" element={<SpeakerProfile speakers={speakers} events={events.filter(e => e.status === 'published')} settings={settings} />} />
+          <Route path="/ticket/:code" element={<TicketView settings={settings} />} />
+          <Route path="/manage" element={<ManageBooking settings={settings} />} />
+          <Route path="/manage/:token" element={<ManageBooking settings={settings} />} />
+
+          {/* Door check-in runs full screen on a phone or tablet, outside the admin sidebar */}
+          <Route path="/checkin/:id" element={<CheckIn events={events} />} />
 
           {/* Admin Dashboard Routes - Only accessible if not purely visitor mode (simplified check) */}
           <Route path="/*" element={
             <AdminLayout isVisitor={isVisitorMode}>
               <Routes>
-                <Route path="/" element={<Dashboard events={events} onDelete={handleDeleteEvent} isVisitor={isVisitorMode} />} />
+                <Route path="/" element={<Dashboard events={events} onDelete={handleDeleteEvent} isVisitor={isVisitorMode} currency={settings.paymentConfig.currency} timezone={settings.timezone} />} />
                 <Route path="/new" element={
                   <EventEditor 
                     onSave={handleCreateEvent} 
+                    onSaveSeries={handleSaveSeries}
                     assets={globalAssets}
                     onAddAsset={handleAddAsset}
                     onPublish={handlePublish}
+                    currency={settings.paymentConfig.currency}
+                    timezone={settings.timezone}
+                    speakers={speakers}
+                    venues={venues}
                   />
                 } />
                 <Route path="/edit/:id" element={
                   <EventEditorWrapper 
                     events={events} 
                     onSave={handleUpdateEvent} 
+                    onSaveSeries={handleSaveSeries}
                     assets={globalAssets}
                     onAddAsset={handleAddAsset}
                     onPublish={handlePublish}
+                    currency={settings.paymentConfig.currency}
+                    timezone={settings.timezone}
+                    speakers={speakers}
+                    venues={venues}
+                  />
+                } />
+                <Route path="/bookings" element={<Bookings events={events} />} />
+                <Route path="/promos" element={<PromoCodes events={events} currency={settings.paymentConfig.currency} />} />
+                <Route path="/webhooks" element={<WebhookLog />} />
+                <Route path="/waitlist/:id" element={<Waitlist events={events} />} />
+                <Route path="/announce/:id" element={<Announcements events={events} />} />
+                <Route path="/sessions/:id" element={<SessionRosters events={events} />} />
+                <Route path="/speakers" element={
+                  <Speakers
+                    speakers={speakers}
+                    assets={globalAssets}
+                    events={events}
+                    onSave={handleSaveSpeaker}
+                    onDelete={handleDeleteSpeaker}
+                  />
+                } />
+                <Route path="/venues" element={
+                  <Venues
+                    venues={venues}
+                    events={events}
+                    onSave={handleSaveVenue}
+                    onDelete={handleDeleteVenue}
                   />
                 } />
                 <Route path="/assets" element={
@@ -238,6 +349,14 @@ const App: React.FC = () => {
   );
 };
 
+// Replaces events by id (new ones go first) and drops removed ones
+function mergeEvents(events: Event[], changed: Event[], removedIds: string[] = []) {
+    const changedById = new Map(changed.map(e => [e.id, e]));
+    const merged = events.filter(e => !removedIds.includes(e.id)).map(e => changedById.get(e.id) || e);
+    const added = changed.filter(e => !events.some(existing => existing.id === e.id));
+    return [...added, ...merged];
+}
+
 // Helper for CSS vars
 function hexToRgb(hex: string) {
     const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
@@ -247,16 +366,22 @@ function hexToRgb(hex: string) {
 const EventEditorWrapper: React.FC<{
   events: Event[], 
   onSave: (e: Event) => void,
+  onSaveSeries: (saved: Event[], removedIds?: string[]) => Promise<void>,
   assets: Asset[],
   onAddAsset: (a: Asset, b?: Blob) => void,
-  onPublish: (e?: Event) => Promise<void>
-}> = ({ events, onSave, assets, onAddAsset, onPublish }) => {
+  onPublish: (e?: Event | Event[], removedIds?: string[]) => Promise<Event | undefined>,
+  currency?: string,
+  timezone?: string,
+  speakers: Speaker[],
+  venues: Venue[]
+}> = ({ events, onSave, onSaveSeries, assets, onAddAsset, onPublish, currency, timezone, speakers, venues }) => {
   const params = useLocation(); 
   const id = params.pathname.split('/').pop(); 
   const event = events.find(e => e.id === id);
 
   if (!event) return <div>Event not found</div>;
-  return <EventEditor initialEvent={event} onSave={onSave} assets={assets} onAddAsset={onAddAsset} onPublish={onPublish} />;
+  const series = event.seriesId ? events.filter(e => e.seriesId === event.seriesId) : undefined;
+  return <EventEditor initialEvent={event} series={series} onSave={onSave} onSaveSeries={onSaveSeries} assets={assets} onAddAsset={onAddAsset} onPublish={onPublish} currency={currency} timezone={timezone} speakers={speakers} venues={venues} />;
 }
 
 const AdminLayout: React.FC<{ children: React.ReactNode, isVisitor: boolean }> = ({ children, isVisitor }) => {
@@ -264,7 +389,12 @@ const AdminLayout: React.FC<{ children: React.ReactNode, isVisitor: boolean }> =
   
   const navItems = [
     { icon: Layout, label: 'Dashboard', path: '/' },
+    { icon: ClipboardList, label: 'Bookings', path: '/bookings' },
+    { icon: BadgePercent, label: 'Promo Codes', path: '/promos' },
+    { icon: Mic, label: 'Speakers', path: '/speakers' },
+    { icon: Building2, label: 'Venues', path: '/venues' },
     { icon: Layers, label: 'Assets Library', path: '/assets' },
+    { icon: Webhook, label: 'Webhooks', path: '/webhooks' },
     { icon: SettingsIcon, label: 'Settings', path: '/settings' },
   ];
 
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Event, Announcement, AnnouncementAudience, DeliveryStatus } from '../types';
+import { BookingService } from '../services/bookingService';
+import { ArrowLeft, Megaphone, Send, RefreshCw, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+
+interface AnnouncementsProps {
+    events: Event[];
+}
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+    queued: 'bg-blue-100 text-brand',
+    sent: 'bg-emerald-100 text-emerald-700',
+    failed: 'bg-red-100 text-red-700',
+    skipped: 'bg-gray-100 text-gray-500',
+};
+
+const EMPTY_FORM = { subject: '', message: '', includeWaitlist: false };
+
+export const Announcements: React.FC<AnnouncementsProps> = ({ events }) => {
+    const { id } = useParams();
+    const event = events.find(e => e.id === id);
+    const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+    const [audience, setAudience] = useState<AnnouncementAudience | null>(null);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadAnnouncements = async () => {
+        if (!id) return;
+        try {
+            const data = await BookingService.getAnnouncements(id);
+            setAnnouncements(data.announcements);
+            setAudience(data.audience);
+            setError(null);
+        } catch (e) {
+            console.error(e);
+            setError("Could not reach the server. Announcements are sent by the publishing server.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => { loadAnnouncements(); }, [id]);
+
+    const recipientCount = audience ? audience.attendees + (form.includeWaitlist ? audience.waitlist : 0) : 0;
+
+    const handleSend = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!id || !window.confirm(`Email this to ${recipientCount} ${recipientCount === 1 ? 'person' : 'people'}?`)) return;
+        setIsSending(true);
+        try {
+            const sent = await BookingService.sendAnnouncement(id, form);
+            setForm(EMPTY_FORM);
+            setExpandedId(sent.id);
+            await loadAnnouncements();
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Failed to send the announcement.");
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const handleRetry = async (announcement: Announcement) => {
+        const updated = await BookingService.retryAnnouncement(announcement.id);
+        setAnnouncements(prev => prev.map(a => a.id === updated.id ? updated : a));
+    };
+
+    const countByStatus = (announcement: Announcement, status: DeliveryStatus) => announcement.recipients.filter(r => r.status === status).length;
+
+    const inputClass = "w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none";
+
+    return (
+        <div className="p-8 h-full overflow-y-auto bg-cream">
+            <header className="mb-8 border-b border-accent/20 pb-6">
+                <Link to="/" className="inline-flex items-center gap-2 text-sm text-grayText hover:text-brand mb-4 transition-colors">
+                    <ArrowLeft className="w-4 h-4" /> Back to Dashboard
+                </Link>
+                <h2 className="text-3xl font-bold text-brand mb-2 flex items-center gap-3">
+                    <Megaphone className="w-7 h-7" /> Message Attendees
+                </h2>
+                <p className="text-grayText">{event ? event.title : 'Unknown event'}</p>
+            </header>
+
+            {isLoading ? (
+                <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 text-brand animate-spin" /></div>
+            ) : error ? (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">{error}</div>
+            ) : (
+                <>
+                    <form onSubmit={handleSend} className="bg-white rounded-xl border border-accent/20 p-6 shadow-sm mb-8 space-y-4">
+                        <div>
+                            <label className="block text-sm font-semibold text-dark mb-1">Subject</label>
+                            <input required value={form.subject} onChange={e => setForm({...form, subject: e.target.value})} className={inputClass} placeholder="Change of venue" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-dark mb-1">Message</label>
+                            <textarea required rows={6} value={form.message} onChange={e => setForm({...form, message: e.target.value})} className={inputClass} placeholder="We've moved to a bigger room..." />
+                            <p className="text-xs text-grayText mt-1">Sent with the event's date and location using the Announcement template from Settings.</p>
+                        </div>
+                        <div className="flex flex-wrap items-center justify-between gap-4">
+                            <label className="flex items-center gap-2 text-sm text-dark">
+                                <input
+                                    type="checkbox"
+                                    checked={form.includeWaitlist}
+                                    onChange={e => setForm({...form, includeWaitlist: e.target.checked})}
+                                    className="rounded border-gray-300 text-brand focus:ring-brand"
+                                />
+                                Also email the waitlist ({audience?.waitlist ?? 0})
+                            </label>
+                            <button type="submit" disabled={isSending || recipientCount === 0} className="bg-brand text-white px-6 py-2 rounded-lg font-medium hover:bg-brand-900 transition flex items-center gap-2 disabled:opacity-70">
+                                {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                                Send to {recipientCount} {recipientCount === 1 ? 'person' : 'people'}
+                            </button>
+                        </div>
+                    </form>
+
+                    <h3 className="text-lg font-semibold text-dark mb-4">Sent Announcements</h3>
+                    {announcements.length === 0 ? (
+                        <div className="text-center py-20 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-xl bg-white/50">
+                            Nothing has been sent for this event yet.
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            {announcements.map(announcement => {
+                                const isExpanded = expandedId === announcement.id;
+                                const failedCount = countByStatus(announcement, 'failed');
+                                return (
+                                    <div key={announcement.id} className="bg-white rounded-xl border border-accent/20 shadow-sm overflow-hidden">
+                                        <button onClick={() => setExpandedId(isExpanded ? null : announcement.id)} className="w-full flex items-center justify-between gap-4 px-4 py-3 text-left hover:bg-gray-50/50">
+                                            <span className="flex items-center gap-2 min-w-0">
+                                                {isExpanded ? <ChevronDown className="w-4 h-4 text-grayText" /> : <ChevronRight className="w-4 h-4 text-grayText" />}
+                                                <span className="font-medium text-dark truncate">{announcement.subject}</span>
+                                            </span>
+                                            <span className="flex items-center gap-3 text-xs text-grayText whitespace-nowrap">
+                                                <span>{countByStatus(announcement, 'sent')} / {announcement.recipients.length} sent</span>
+                                                {failedCount > 0 && <span className="text-red-600">{failedCount} failed</span>}
+                                                <span>{new Date(announcement.createdAt).toLocaleString()}</span>
+                                            </span>
+                                        </button>
+                                        {isExpanded && (
+                                            <div className="border-t border-gray-100">
+                                                <p className="px-4 py-3 text-sm text-grayText whitespace-pre-line">{announcement.message}</p>
+                                                {failedCount > 0 && (
+                                                    <div className="px-4 pb-3">
+                                                        <button onClick={() => handleRetry(announcement)} className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-lg bg-brand/5 text-brand border border-brand/20 hover:bg-brand/10 transition">
+                                                            <RefreshCw className="w-3 h-3" /> Retry {failedCount} failed
+                                                        </button>
+                                                    </div>
+                                                )}
+                                                <table className="w-full text-sm">
+                                                    <thead className="bg-gray-50 text-left text-xs uppercase text-grayText">
+                                                        <tr>
+                                                            <th className="px-4 py-2">Recipient</th>
+                                                            <th className="px-4 py-2">Email</th>
+                                                            <th className="px-4 py-2">Status</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody className="divide-y divide-gray-100">
+                                                        {announcement.recipients.map(recipient => (
+                                                            <tr key={recipient.email} className="align-top">
+                                                                <td className="px-4 py-2 text-dark">
+                                                                    {recipient.name}
+                                                                    {recipient.kind === 'waitlist' && <span className="ml-2 text-xs text-gray-400">waitlist</span>}
+                                                                </td>
+                                                                <td className="px-4 py-2 text-grayText">{recipient.email}</td>
+                                                                <td className="px-4 py-2">
+                                                                    <span className={`px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide ${STATUS_STYLES[recipient.status]}`}>{recipient.status}</span>
+                                                                    {recipient.error && <span className="block text-xs text-red-600 mt-1">{recipient.error}</span>}
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { Event, Booking } from '../types';
+import { BookingService } from '../services/bookingService';
+import { formatPrice } from '../utils/currency';
+import { ClipboardList, CheckCircle, Loader2, XCircle } from 'lucide-react';
+
+interface BookingsProps {
+    events: Event[];
+}
+
+const STATUS_STYLES: Record<Booking['status'], string> = {
+    pending: 'bg-amber-100 text-amber-700',
+    confirmed: 'bg-emerald-100 text-emerald-700',
+    cancelled: 'bg-gray-100 text-gray-500',
+};
+
+// Bookings paid through Stripe (older ones have no provider) can be refunded from here
+const isRefundable = (booking: Booking) =>
+    booking.status === 'confirmed' && !!booking.stripePaymentIntentId && booking.amount - (booking.refundedAmount || 0) > 0;
+
+export const Bookings: React.FC<BookingsProps> = ({ events }) => {
+    const [eventFilter, setEventFilter] = useState('');
+    const [bookings, setBookings] = useState<Booking[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [markingId, setMarkingId] = useState<string | null>(null);
+    const [cancelling, setCancelling] = useState<Booking | null>(null);
+    const [refund, setRefund] = useState(true);
+    const [isCancelling, setIsCancelling] = useState(false);
+
+    const loadBookings = async () => {
+        try {
+            setBookings(await BookingService.getBookings(eventFilter || undefined));
+            setError(null);
+        } catch (e) {
+            console.error(e);
+            setError("Could not reach the server. Bookings are recorded by the publishing server.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => { loadBookings(); }, [eventFilter]);
+
+    const handleMarkPaid = async (booking: Booking) => {
+        if (!window.confirm(`Mark ${booking.customerName}'s booking as paid? They will be emailed a confirmation.`)) return;
+        setMarkingId(booking.id);
+        try {
+            await BookingService.markPaid(booking.id);
+            await loadBookings();
+        } catch (e) {
+            console.error(e);
+            alert("Failed to mark the booking as paid.");
+        } finally {
+            setMarkingId(null);
+        }
+    };
+
+    const openCancel = (booking: Booking) => {
+        setCancelling(booking);
+        setRefund(isRefundable(booking));
+    };
+
+    const handleCancel = async () => {
+        if (!cancelling) return;
+        setIsCancelling(true);
+        try {
+            await BookingService.cancelBooking(cancelling.id, refund && isRefundable(cancelling));
+            setCancelling(null);
+            await loadBookings();
+        } catch (e) {
+            console.error(e);
+            alert(e instanceof Error ? e.message : "Failed to cancel the booking.");
+        } finally {
+            setIsCancelling(false);
+        }
+    };
+
+    const eventTitle = (eventId: string) => events.find(e => e.id === eventId)?.title || 'Deleted event';
+    const pendingCount = bookings.filter(b => b.status === 'pending').length;
+
+    return (
+        <div className="p-8 h-full overflow-y-auto bg-cream">
+            <header className="mb-8 flex justify-between items-end border-b border-accent/20 pb-6">
+                <div>
+                    <h2 className="text-3xl font-bold text-brand mb-2 flex items-center gap-3">
+                        <ClipboardList className="w-7 h-7" /> Bookings
+                    </h2>
+                    <p className="text-grayText">{bookings.length} bookings &middot; {pendingCount} awaiting payment</p>
+                </div>
+                <select
+                    value={eventFilter}
+                    onChange={(e) => setEventFilter(e.target.value)}
+                    className="bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                >
+                    <option value="">All events</option>
+                    {events.map(e => <option key={e.id} value={e.id}>{e.title}</option>)}
+                </select>
+            </header>
+
+            {isLoading ? (
+                <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 text-brand animate-spin" /></div>
+            ) : error ? (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">{error}</div>
+            ) : bookings.length === 0 ? (
+                <div className="text-center py-20 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-xl bg-white/50">
+                    No bookings yet.
+                </div>
+            ) : (
+                <div className="bg-white rounded-xl border border-accent/20 shadow-sm overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 text-left text-xs uppercase text-grayText">
+                            <tr>
+                                <th className="px-4 py-3">Guest</th>
+                                <th className="px-4 py-3">Event</th>
+                                <th className="px-4 py-3">Tickets</th>
+                                <th className="px-4 py-3">Amount</th>
+                                <th className="px-4 py-3">Provider</th>
+                                <th className="px-4 py-3">Booked</th>
+                                <th className="px-4 py-3">Status</th>
+                                <th className="px-4 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {bookings.map(booking => (
+                                <tr key={booking.id} className="hover:bg-gray-50/50">
+                                    <td className="px-4 py-3">
+                                        <span className="block font-medium text-dark">{booking.customerName}</span>
+                                        <span className="block text-xs text-grayText">{booking.customerEmail}</span>
+                                        {booking.attendees && booking.attendees.length > 0 && (
+                                            <span className="block text-xs text-gray-400 mt-1">Guests: {booking.attendees.filter(Boolean).join(', ')}</span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 text-grayText">{eventTitle(booking.eventId)}</td>
+                                    <td className="px-4 py-3 text-dark">{booking.quantity || 1}</td>
+                                    <td className="px-4 py-3 text-dark">
+                                        {formatPrice(booking.amount, booking.currency)}
+                                        {booking.promoCode && (
+                                            <span className="block text-xs text-emerald-700">{booking.promoCode} (-{formatPrice(booking.discount || 0, booking.currency)})</span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 text-grayText capitalize">{booking.provider === 'rsvp' ? 'Free RSVP' : booking.provider || 'stripe'}</td>
+                                    <td className="px-4 py-3 text-grayText">{new Date(booking.createdAt).toLocaleString()}</td>
+                                    <td className="px-4 py-3">
+                                        <span className={`px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide ${STATUS_STYLES[booking.status]}`}>{booking.status}</span>
+                                        {booking.refundedAmount ? (
+                                            <span className="block text-xs text-gray-400 mt-1">Refunded {formatPrice(booking.refundedAmount, booking.currency)}</span>
+                                        ) : null}
+                                    </td>
+                                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                                        {booking.status === 'pending' && (
+                                            <button
+                                                onClick={() => handleMarkPaid(booking)}
+                                                disabled={markingId === booking.id}
+                                                className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-emerald-700 bg-emerald-50 hover:bg-emerald-100 rounded-lg transition-colors disabled:opacity-50"
+                                            >
+                                                {markingId === booking.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <CheckCircle className="w-3 h-3" />} Mark Paid
+                                            </button>
+                                        )}
+                                        {booking.status !== 'cancelled' && (
+                                            <button
+                                                onClick={() => openCancel(booking)}
+                                                className="inline-flex items-center gap-1 ml-2 px-3 py-1.5 text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                                            >
+                                                <XCircle className="w-3 h-3" /> Cancel
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {cancelling && (
+                <div className="fixed inset-0 bg-dark/40 flex items-center justify-center z-50 p-4">
+                    <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 space-y-4">
+                        <h3 className="text-xl font-semibold text-dark">Cancel Booking</h3>
+                        <p className="text-sm text-grayText">
+                            {cancelling.customerName}'s {(cancelling.quantity || 1) > 1 ? `${cancelling.quantity} tickets` : 'ticket'} for {eventTitle(cancelling.eventId)} will be released
+                            and they'll get a cancellation email. Anyone on the waitlist will be offered the spot.
+                        </p>
+                        {isRefundable(cancelling) ? (
+                            <label className="flex items-center gap-2 text-sm text-dark">
+                                <input type="checkbox" checked={refund} onChange={e => setRefund(e.target.checked)} className="accent-brand" />
+                                Refund {formatPrice(cancelling.amount - (cancelling.refundedAmount || 0), cancelling.currency)} through Stripe
+                            </label>
+                        ) : cancelling.status === 'confirmed' && (
+                            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-3">
+                                This payment wasn't made through Stripe. Refund it in {cancelling.provider === 'square' ? 'Square' : cancelling.provider === 'paypal' ? 'PayPal' : 'person'} if needed.
+                            </p>
+                        )}
+                        <div className="flex justify-end gap-2 pt-2">
+                            <button onClick={() => setCancelling(null)} className="px-4 py-2 text-sm text-grayText hover:text-dark transition">Keep Booking</button>
+                            <button
+                                onClick={handleCancel}
+                                disabled={isCancelling}
+                                className="px-4 py-2 text-sm font-medium bg-red-600 text-white rounded-lg hover:bg-red-700 transition flex items-center gap-2 disabled:opacity-70"
+                            >
+                                {isCancelling && <Loader2 className="w-4 h-4 animate-spin" />} Cancel Booking
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
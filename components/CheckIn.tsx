@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Event, Roster, RosterTicket, CheckInResult } from '../types';
+import { BookingService } from '../services/bookingService';
+import { LocalDB } from '../services/localDb';
+import { ArrowLeft, ScanLine, Search, CheckCircle, AlertTriangle, XCircle, Wifi, WifiOff, Camera, CameraOff, Loader2 } from 'lucide-react';
+
+interface CheckInProps {
+    events: Event[];
+}
+
+// Shape Detection API (Chrome, Android, Safari 17+); not yet in TypeScript's DOM typings
+declare class BarcodeDetector {
+    constructor(options?: { formats: string[] });
+    detect(source: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+
+type Flash = { tone: 'success' | 'warning' | 'error', title: string, detail?: string };
+
+const FLASH_STYLES: Record<Flash['tone'], string> = {
+    success: 'bg-emerald-50 border-emerald-200 text-emerald-800',
+    warning: 'bg-amber-50 border-amber-200 text-amber-800',
+    error: 'bg-red-50 border-red-200 text-red-800',
+};
+
+const FLASH_ICONS = { success: CheckCircle, warning: AlertTriangle, error: XCircle };
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// Full-screen door mode. Works from the roster cached in IndexedDB, so check-ins keep
+// going when the venue Wi-Fi drops; they're queued locally and sent once it's back.
+export const CheckIn: React.FC<CheckInProps> = ({ events }) => {
+    const { id } = useParams();
+    const event = events.find(e => e.id === id);
+
+    const [roster, setRoster] = useState<Roster | null>(null);
+    const [queuedCount, setQueuedCount] = useState(0);
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+    const [isLoading, setIsLoading] = useState(true);
+    const [search, setSearch] = useState('');
+    const [flash, setFlash] = useState<Flash | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const rosterRef = useRef<Roster | null>(null);
+    rosterRef.current = roster;
+
+    const updateRoster = async (next: Roster) => {
+        setRoster(next);
+        rosterRef.current = next;
+        await LocalDB.saveRoster(next);
+    };
+
+    const setTicketCheckedIn = (current: Roster, code: string, checkedInAt: string): Roster => ({
+        ...current,
+        tickets: current.tickets.map(t => t.code === code ? { ...t, checkedInAt } : t)
+    });
+
+    // Send queued check-ins. Each result is final, so it leaves the queue whatever it says;
+    // a duplicate here means another device admitted the same ticket first.
+    const flushQueue = async () => {
+        if (!id) return;
+        const queued = await LocalDB.getQueuedCheckIns(id);
+        setQueuedCount(queued.length);
+        if (queued.length === 0) return;
+
+        let results: CheckInResult[];
+        try {
+            results = await BookingService.checkIn(id, queued.map(({ code, checkedInAt }) => ({ code, checkedInAt })));
+            setIsOnline(true);
+        } catch (e) {
+            setIsOnline(false);
+            return;
+        }
+
+        await LocalDB.removeQueuedCheckIns(results.map(r => r.code));
+        setQueuedCount((await LocalDB.getQueuedCheckIns(id)).length);
+
+        let current = rosterRef.current;
+        for (const result of results) {
+            if (current && result.checkedInAt) current = setTicketCheckedIn(current, result.code, result.checkedInAt);
+        }
+        if (current) await updateRoster(current);
+
+        const conflicts = results.filter(r => r.result !== 'checked_in');
+        if (conflicts.length > 0) {
+            setFlash({
+                tone: 'warning',
+                title: `${conflicts.length} synced check-in${conflicts.length > 1 ? 's' : ''} need attention`,
+                detail: conflicts.map(c => `${c.name || c.code}: ${c.result === 'duplicate' && c.checkedInAt ? `already admitted at ${formatTime(c.checkedInAt)}` : c.result}`).join('; ')
+            });
+        }
+    };
+
+    // Cached roster first so the page is usable offline, then the server's copy on top.
+    // Local check-ins the server hasn't seen yet are re-applied so they don't flicker back.
+    const loadRoster = async () => {
+        if (!id) return;
+        const cached = await LocalDB.getRoster(id);
+        if (cached) setRoster(cached);
+        rosterRef.current = cached || null;
+
+        try {
+            let fresh = await BookingService.getRoster(id);
+            for (const queued of await LocalDB.getQueuedCheckIns(id)) {
+                fresh = setTicketCheckedIn(fresh, queued.code, queued.checkedInAt);
+            }
+            await updateRoster(fresh);
+            setIsOnline(true);
+        } catch (e) {
+            console.warn("Roster download failed, using cached copy", e);
+            setIsOnline(false);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadRoster().then(flushQueue);
+
+        const handleOnline = () => { setIsOnline(true); flushQueue().then(loadRoster); };
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+
+        // Pick up bookings and check-ins from other devices
+        const interval = setInterval(() => { flushQueue().then(loadRoster); }, 30000);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+            clearInterval(interval);
+        };
+    }, [id]);
+
+    const admit = async (code: string) => {
+        if (!id) return;
+        const current = rosterRef.current;
+        const ticket = current?.tickets.find(t => t.code === code.trim());
+
+        if (!ticket) {
+            setFlash({ tone: 'error', title: 'Ticket not recognised', detail: isOnline ? 'This code is not on the roster for this event.' : 'Not on the cached roster. It may be a new booking; try again once online.' });
+            return;
+        }
+        if (ticket.checkedInAt) {
+            setFlash({ tone: 'warning', title: `${ticket.name} is already checked in`, detail: `Admitted at ${formatTime(ticket.checkedInAt)}. This may be a copied ticket.` });
+            return;
+        }
+        if (ticket.status !== 'confirmed') {
+            setFlash({ tone: 'warning', title: `${ticket.name} hasn't paid yet`, detail: 'Take payment and mark the booking paid before admitting.' });
+            return;
+        }
+
+        const checkedInAt = new Date().toISOString();
+        await updateRoster(setTicketCheckedIn(current!, ticket.code, checkedInAt));
+        await LocalDB.queueCheckIn({ code: ticket.code, eventId: id, checkedInAt });
+        setFlash({ tone: 'success', title: `Welcome, ${ticket.name}!`, detail: ticket.ticketTypeName });
+        await flushQueue();
+    };
+
+    // The scan loop outlives renders, so it calls the latest admit through a ref
+    const admitRef = useRef(admit);
+    admitRef.current = admit;
+
+    useEffect(() => {
+        if (!isScanning) return;
+        let stream: MediaStream | null = null;
+        let timer: ReturnType<typeof setInterval> | undefined;
+        let lastCode = '';
+        let lastSeenAt = 0;
+
+        const start = async () => {
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+                if (!videoRef.current) return;
+                videoRef.current.srcObject = stream;
+                await videoRef.current.play();
+
+                const detector = new BarcodeDetector({ formats: ['qr_code'] });
+                timer = setInterval(async () => {
+                    if (!videoRef.current || videoRef.current.readyState < 2) return;
+                    const codes = await detector.detect(videoRef.current).catch(() => []);
+                    const value = codes[0]?.rawValue;
+                    // The same QR stays in frame for a while; only act on it once every few seconds
+                    if (!value || (value === lastCode && Date.now() - lastSeenAt < 3000)) return;
+                    lastCode = value;
+                    lastSeenAt = Date.now();
+                    admitRef.current(value);
+                }, 300);
+            } catch (e) {
+                console.error(e);
+                setFlash({ tone: 'error', title: 'Camera unavailable', detail: 'Allow camera access, or search for guests by name instead.' });
+                setIsScanning(false);
+            }
+        };
+        start();
+
+        return () => {
+            clearInterval(timer);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, [isScanning]);
+
+    const canScan = typeof window !== 'undefined' && 'BarcodeDetector' in window && !!navigator.mediaDevices;
+
+    const query = search.trim().toLowerCase();
+    const tickets: RosterTicket[] = (roster?.tickets || [])
+        .filter(t => !query || t.name.toLowerCase().includes(query) || t.customerName.toLowerCase().includes(query) || t.customerEmail.toLowerCase().includes(query))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    const checkedInCount = roster ? roster.tickets.filter(t => t.checkedInAt).length : 0;
+    const FlashIcon = flash ? FLASH_ICONS[flash.tone] : null;
+
+    return (
+        <div className="min-h-screen bg-cream text-dark">
+            <header className="bg-white border-b border-accent/20 px-6 py-4 flex flex-wrap items-center justify-between gap-4 sticky top-0 z-10">
+                <div className="flex items-center gap-4">
+                    <Link to="/" className="text-grayText hover:text-brand transition-colors" title="Back to Dashboard"><ArrowLeft className="w-5 h-5" /></Link>
+                    <div>
+                        <h1 className="font-bold text-lg flex items-center gap-2"><ScanLine className="w-5 h-5 text-brand" /> Check-in</h1>
+                        <p className="text-sm text-grayText">{event ? event.title : 'Unknown event'}</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-4 text-sm">
+                    <span className="font-semibold">{checkedInCount} / {roster?.tickets.length ?? 0} checked in</span>
+                    <span className={`flex items-center gap-1 ${isOnline ? 'text-emerald-600' : 'text-amber-600'}`}>
+                        {isOnline ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+                        {isOnline ? 'Online' : 'Offline'}{queuedCount > 0 && ` · ${queuedCount} to sync`}
+                    </span>
+                </div>
+            </header>
+
+            <main className="max-w-3xl mx-auto p-6 space-y-6">
+                {flash && FlashIcon && (
+                    <div className={`border rounded-xl p-4 flex items-start gap-3 ${FLASH_STYLES[flash.tone]}`}>
+                        <FlashIcon className="w-6 h-6 flex-shrink-0" />
+                        <div className="flex-1">
+                            <p className="font-bold">{flash.title}</p>
+                            {flash.detail && <p className="text-sm">{flash.detail}</p>}
+                        </div>
+                        <button onClick={() => setFlash(null)} className="text-sm opacity-60 hover:opacity-100">Dismiss</button>
+                    </div>
+                )}
+
+                {canScan && (
+                    <div className="bg-white rounded-xl border border-accent/20 p-4 shadow-sm">
+                        <button
+                            onClick={() => setIsScanning(!isScanning)}
+                            className="w-full flex items-center justify-center gap-2 py-3 rounded-lg bg-brand text-white font-medium hover:bg-brand-900 transition"
+                        >
+                            {isScanning ? <><CameraOff className="w-5 h-5" /> Stop Scanning</> : <><Camera className="w-5 h-5" /> Scan Tickets</>}
+                        </button>
+                        {isScanning && <video ref={videoRef} muted playsInline className="w-full mt-4 rounded-lg bg-black aspect-video object-cover" />}
+                    </div>
+                )}
+
+                <div className="relative">
+                    <Search className="w-5 h-5 text-gray-400 absolute left-4 top-1/2 -translate-y-1/2" />
+                    <input
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        placeholder="Search by name or email"
+                        className="w-full bg-white border border-gray-300 rounded-xl pl-12 pr-4 py-3 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                    />
+                </div>
+
+                {isLoading && !roster ? (
+                    <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 text-brand animate-spin" /></div>
+                ) : !roster ? (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+                        The roster hasn't been downloaded to this device yet. Connect to the internet once before doors open.
+                    </div>
+                ) : tickets.length === 0 ? (
+                    <div className="text-center py-20 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-xl bg-white/50">
+                        {query ? 'No guests match your search.' : 'No bookings for this event yet.'}
+                    </div>
+                ) : (
+                    <ul className="bg-white rounded-xl border border-accent/20 shadow-sm divide-y divide-gray-100">
+                        {tickets.map(ticket => (
+                            <li key={ticket.code} className="flex items-center justify-between gap-4 px-4 py-3">
+                                <div className="min-w-0">
+                                    <p className="font-medium text-dark truncate">{ticket.name}</p>
+                                    <p className="text-xs text-grayText truncate">
+                                        {ticket.customerEmail}
+                                        {ticket.ticketTypeName && ` · ${ticket.ticketTypeName}`}
+                                        {ticket.name !== ticket.customerName && ` · booked by ${ticket.customerName}`}
+                                    </p>
+                                </div>
+                                {ticket.checkedInAt ? (
+                                    <span className="flex items-center gap-1 text-sm text-emerald-700 whitespace-nowrap"><CheckCircle className="w-4 h-4" /> {formatTime(ticket.checkedInAt)}</span>
+                                ) : ticket.status !== 'confirmed' ? (
+                                    <span className="px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide bg-amber-100 text-amber-700">unpaid</span>
+                                ) : (
+                                    <button onClick={() => admit(ticket.code)} className="px-4 py-2 text-sm font-medium rounded-lg bg-brand/5 text-brand border border-brand/20 hover:bg-brand/10 transition whitespace-nowrap">
+                                        Check In
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {roster && <p className="text-xs text-center text-gray-400">Roster updated {new Date(roster.syncedAt).toLocaleString()}</p>}
+            </main>
+        </div>
+    );
+};
@@ -1,18 +1,37 @@
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Event } from '../types';
-import { Edit2, Trash2, Eye, Calendar, Users, DollarSign, BarChart3, ExternalLink } from 'lucide-react';
+import { Event, BookingStats } from '../types';
+import { BookingService } from '../services/bookingService';
+import { formatPrice } from '../utils/currency';
+import { eventEnd, formatEventDate } from '../utils/datetime';
+import { describeRecurrence, groupBySeries } from '../utils/recurrence';
+import { Edit2, Trash2, Eye, Calendar, Users, DollarSign, BarChart3, ExternalLink, ListOrdered, ScanLine, Megaphone, Repeat, CalendarCheck } from 'lucide-react';
 
 interface DashboardProps {
     events: Event[];
     onDelete: (id: string) => void;
     isVisitor?: boolean;
+    currency?: string; // AppSettings.paymentConfig.currency
+    timezone?: string; // AppSettings.timezone
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ events, onDelete, isVisitor }) => {
-    const totalRevenue = events.reduce((acc, curr) => acc + (curr.bookings * curr.price), 0);
-    const totalAttendees = events.reduce((acc, curr) => acc + curr.bookings, 0);
+export const Dashboard: React.FC<DashboardProps> = ({ events, onDelete, isVisitor, currency, timezone }) => {
+    const [stats, setStats] = useState<Record<string, BookingStats> | null>(null);
+
+    // Real numbers come from the server's booking ledger
+    useEffect(() => {
+        if (isVisitor) return;
+        BookingService.getStats()
+            .then(setStats)
+            .catch(e => console.warn("Booking stats unavailable, showing local counts.", e));
+    }, [isVisitor]);
+
+    const bookingsFor = (event: Event) => stats ? (stats[event.id]?.bookings ?? 0) : event.bookings;
+    const revenueFor = (event: Event) => stats ? (stats[event.id]?.revenue ?? 0) : event.bookings * event.price;
+
+    const totalRevenue = events.reduce((acc, curr) => acc + revenueFor(curr), 0);
+    const totalAttendees = events.reduce((acc, curr) => acc + bookingsFor(curr), 0);
 
     if (isVisitor) {
         return (
@@ -38,7 +57,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ events, onDelete, isVisito
                         </div>
                         <div>
                             <p className="text-xs text-grayText uppercase font-semibold">Revenue</p>
-                            <p className="text-xl font-bold text-dark">${totalRevenue.toLocaleString()}</p>
+                            <p className="text-xl font-bold text-dark">{formatPrice(totalRevenue, currency)}</p>
                         </div>
                     </div>
                     <div className="bg-white p-4 rounded-xl border border-accent/20 flex items-center gap-3 shadow-sm">
@@ -55,47 +74,109 @@ export const Dashboard: React.FC<DashboardProps> = ({ events, onDelete, isVisito
 
             {/* Events Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-                {events.map(event => (
-                    <div key={event.id} className="group bg-white rounded-xl border border-accent/20 overflow-hidden hover:border-brand/50 transition-all duration-300 shadow-sm hover:shadow-lg">
-                        <Link to={`/edit/${event.id}`}>
-                            <div className="h-40 bg-gray-200 relative overflow-hidden cursor-pointer">
-                                <img src={event.imageUrl} alt={event.title} className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity group-hover:scale-105 duration-500" />
-                                <div className="absolute top-3 right-3">
-                                    <span className={`px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide backdrop-blur-sm shadow-sm ${
-                                        event.status === 'published' ? 'bg-emerald-100/90 text-emerald-700' : 
-                                        event.status === 'draft' ? 'bg-amber-100/90 text-amber-700' :
-                                        'bg-gray-100/90 text-gray-600'
-                                    }`}>
-                                        {event.status}
-                                    </span>
-                                </div>
-                            </div>
-                        </Link>
-                        <div className="p-5">
-                            <div className="flex justify-between items-start mb-2">
-                                <Link to={`/edit/${event.id}`} className="hover:text-brand transition-colors">
-                                    <h3 className="text-lg font-bold text-dark line-clamp-1">{event.title}</h3>
+                {groupBySeries(events).map(listing => {
+                    if ('seriesId' in listing) {
+                        // A series shows once, led by its next occurrence, with every date listed below
+                        const { occurrences } = listing;
+                        const lead = occurrences.find(e => eventEnd(e, { timezone }) > new Date()) || occurrences[occurrences.length - 1];
+                        return (
+                            <div key={listing.seriesId} className="group bg-white rounded-xl border border-accent/20 overflow-hidden hover:border-brand/50 transition-all duration-300 shadow-sm hover:shadow-lg">
+                                <Link to={`/edit/${lead.id}`}>
+                                    <div className="h-40 bg-gray-200 relative overflow-hidden cursor-pointer">
+                                        <img src={lead.imageUrl} alt={lead.title} className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity group-hover:scale-105 duration-500" />
+                                        <div className="absolute top-3 right-3">
+                                            <span className="px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide backdrop-blur-sm shadow-sm bg-white/90 text-brand flex items-center gap-1">
+                                                <Repeat className="w-3 h-3" /> Series
+                                            </span>
+                                        </div>
+                                    </div>
                                 </Link>
+                                <div className="p-5">
+                                    <h3 className="text-lg font-bold text-dark line-clamp-1 mb-1">{lead.title}</h3>
+                                    <p className="text-sm text-grayText mb-4">
+                                        {lead.recurrence ? describeRecurrence(lead.recurrence) : 'Recurring'} · {occurrences.length} {occurrences.length === 1 ? 'date' : 'dates'}
+                                    </p>
+                                    <div className="border-t border-gray-100 divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                                        {occurrences.map(event => {
+                                            const isPast = eventEnd(event, { timezone }) <= new Date();
+                                            return (
+                                                <div key={event.id} className={`flex items-center gap-2 py-2 text-sm ${isPast ? 'opacity-50' : ''}`}>
+                                                    <Link to={`/edit/${event.id}`} className="flex-1 text-dark hover:text-brand transition-colors">
+                                                        {formatEventDate(event, { timezone }, { weekday: 'short', month: 'short', day: 'numeric' })}
+                                                        {event.status !== 'published' && <span className="ml-2 text-xs text-amber-700 uppercase">{event.status}</span>}
+                                                    </Link>
+                                                    <span className="flex items-center gap-1 text-grayText text-xs"><Users className="w-3 h-3" /> {bookingsFor(event)}/{event.capacity}</span>
+                                                    <Link to={`/checkin/${event.id}`} className="p-1.5 text-grayText hover:text-brand" title="Door Check-in"><ScanLine className="w-3.5 h-3.5" /></Link>
+                                                    <Link to={`/waitlist/${event.id}`} className="p-1.5 text-grayText hover:text-brand" title="Waitlist"><ListOrdered className="w-3.5 h-3.5" /></Link>
+                                                    <Link to={`/announce/${event.id}`} className="p-1.5 text-grayText hover:text-brand" title="Message Attendees"><Megaphone className="w-3.5 h-3.5" /></Link>
+                                                    {event.sessionSignups && <Link to={`/sessions/${event.id}`} className="p-1.5 text-grayText hover:text-brand" title="Session Rosters"><CalendarCheck className="w-3.5 h-3.5" /></Link>}
+                                                    <button onClick={() => onDelete(event.id)} className="p-1.5 text-red-400 hover:text-red-600" title="Delete this date"><Trash2 className="w-3.5 h-3.5" /></button>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
                             </div>
-                            <div className="flex items-center text-grayText text-sm mb-4 gap-4">
-                                <span className="flex items-center gap-1"><Calendar className="w-3.5 h-3.5" /> {new Date(event.date).toLocaleDateString()}</span>
-                                <span className="flex items-center gap-1"><Users className="w-3.5 h-3.5" /> {event.bookings}/{event.capacity}</span>
-                            </div>
+                        );
+                    }
+
+                    const { event } = listing;
+                    return (
+                        <div key={event.id} className="group bg-white rounded-xl border border-accent/20 overflow-hidden hover:border-brand/50 transition-all duration-300 shadow-sm hover:shadow-lg">
+                            <Link to={`/edit/${event.id}`}>
+                                <div className="h-40 bg-gray-200 relative overflow-hidden cursor-pointer">
+                                    <img src={event.imageUrl} alt={event.title} className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity group-hover:scale-105 duration-500" />
+                                    <div className="absolute top-3 right-3">
+                                        <span className={`px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide backdrop-blur-sm shadow-sm ${
+                                            event.status === 'published' ? 'bg-emerald-100/90 text-emerald-700' : 
+                                            event.status === 'draft' ? 'bg-amber-100/90 text-amber-700' :
+                                            'bg-gray-100/90 text-gray-600'
+                                        }`}>
+                                            {event.status}
+                                        </span>
+                                    </div>
+                                </div>
+                            </Link>
+                            <div className="p-5">
+                                <div className="flex justify-between items-start mb-2">
+                                    <Link to={`/edit/${event.id}`} className="hover:text-brand transition-colors">
+                                        <h3 className="text-lg font-bold text-dark line-clamp-1">{event.title}</h3>
+                                    </Link>
+                                </div>
+                                <div className="flex items-center text-grayText text-sm mb-4 gap-4">
+                                    <span className="flex items-center gap-1"><Calendar className="w-3.5 h-3.5" /> {formatEventDate(event, { timezone }, { year: 'numeric', month: 'numeric', day: 'numeric' })}</span>
+                                    <span className="flex items-center gap-1"><Users className="w-3.5 h-3.5" /> {bookingsFor(event)}/{event.capacity}</span>
+                                </div>
                             
-                            <div className="flex gap-2 mt-4 pt-4 border-t border-gray-100">
-                                <Link to={`/edit/${event.id}`} className="flex-1 flex items-center justify-center gap-2 bg-gray-50 hover:bg-gray-100 text-dark border border-gray-200 py-2 rounded-lg text-sm font-medium transition-colors">
-                                    <Edit2 className="w-4 h-4" /> Edit
-                                </Link>
-                                <button onClick={() => onDelete(event.id)} className="px-3 py-2 bg-red-50 hover:bg-red-100 text-red-500 rounded-lg transition-colors border border-red-100">
-                                    <Trash2 className="w-4 h-4" />
-                                </button>
-                                <Link to={`/public/${event.id}`} target="_blank" className="px-3 py-2 bg-brand text-white rounded-lg transition-colors hover:bg-brand-600 shadow-sm shadow-brand/20" title="View Public Page">
-                                    <Eye className="w-4 h-4" />
-                                </Link>
+                                <div className="flex gap-2 mt-4 pt-4 border-t border-gray-100">
+                                    <Link to={`/edit/${event.id}`} className="flex-1 flex items-center justify-center gap-2 bg-gray-50 hover:bg-gray-100 text-dark border border-gray-200 py-2 rounded-lg text-sm font-medium transition-colors">
+                                        <Edit2 className="w-4 h-4" /> Edit
+                                    </Link>
+                                    <Link to={`/waitlist/${event.id}`} className="px-3 py-2 bg-gray-50 hover:bg-gray-100 text-dark rounded-lg transition-colors border border-gray-200" title="Waitlist">
+                                        <ListOrdered className="w-4 h-4" />
+                                    </Link>
+                                    <Link to={`/checkin/${event.id}`} className="px-3 py-2 bg-gray-50 hover:bg-gray-100 text-dark rounded-lg transition-colors border border-gray-200" title="Door Check-in">
+                                        <ScanLine className="w-4 h-4" />
+                                    </Link>
+                                    <Link to={`/announce/${event.id}`} className="px-3 py-2 bg-gray-50 hover:bg-gray-100 text-dark rounded-lg transition-colors border border-gray-200" title="Message Attendees">
+                                        <Megaphone className="w-4 h-4" />
+                                    </Link>
+                                    {event.sessionSignups && (
+                                        <Link to={`/sessions/${event.id}`} className="px-3 py-2 bg-gray-50 hover:bg-gray-100 text-dark rounded-lg transition-colors border border-gray-200" title="Session Rosters">
+                                            <CalendarCheck className="w-4 h-4" />
+                                        </Link>
+                                    )}
+                                    <button onClick={() => onDelete(event.id)} className="px-3 py-2 bg-red-50 hover:bg-red-100 text-red-500 rounded-lg transition-colors border border-red-100">
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                    <Link to={`/public/${event.id}`} target="_blank" className="px-3 py-2 bg-brand text-white rounded-lg transition-colors hover:bg-brand-600 shadow-sm shadow-brand/20" title="View Public Page">
+                                        <Eye className="w-4 h-4" />
+                                    </Link>
+                                </div>
                             </div>
                         </div>
-                    </div>
-                ))}
+                    );
+                })}
                 
                 {/* Add New Card */}
                 <Link to="/new" className="flex flex-col items-center justify-center h-[340px] bg-white/50 border-2 border-dashed border-accent/30 rounded-xl hover:border-brand/50 hover:bg-white transition-all group cursor-pointer">
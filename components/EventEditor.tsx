@@ -1,19 +1,50 @@
 
 import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { Event, Asset } from '../types';
+import { Event, Asset, TicketType, EventReminders, RecurrenceRule, AgendaItem, Speaker, Venue } from '../types';
+import { currencySymbol } from '../utils/currency';
+import { browserTimezone, isValidTimezone, shiftWallTime, wallTimeDifference } from '../utils/datetime';
+import { agendaDayCount, agendaTracks, dayDate, itemDay, itemTrack } from '../utils/agenda';
+import { findSpeakers } from '../utils/speakers';
+import { findVenue, venueLocation } from '../utils/venues';
+import { WEEKDAY_NAMES, WEEK_OF_MONTH_OPTIONS, MAX_OCCURRENCES, buildOccurrences, defaultRecurrence, describeRecurrence, expandRecurrence, occurrenceId, previewRecurrence, updateOccurrence } from '../utils/recurrence';
+import { BookingService } from '../services/bookingService';
 import { generateEventDescription, generateEventImage, generateEventAgenda, generateEventTags, suggestOptimalDate } from '../services/geminiService';
-import { Sparkles, Calendar as CalIcon, Image as ImageIcon, List, Tag, Save, ArrowLeft, Loader2, Wand2, Eye, Globe, CheckCircle } from 'lucide-react';
+import { Sparkles, Calendar as CalIcon, Image as ImageIcon, List, Tag, Save, ArrowLeft, Loader2, Wand2, Eye, Globe, CheckCircle, Ticket, Plus, Trash2, BellRing, X, Repeat, Mic } from 'lucide-react';
 
 interface EventEditorProps {
     initialEvent?: Event;
+    series?: Event[]; // Every occurrence of initialEvent's series, itself included
     onSave: (event: Event) => void;
+    onSaveSeries?: (saved: Event[], removedIds?: string[]) => Promise<void>;
     assets: Asset[];
     onAddAsset: (asset: Asset) => void;
-    onPublish?: (event: Event) => Promise<void>;
+    onPublish?: (event: Event | Event[], removedIds?: string[]) => Promise<Event | undefined>;
+    currency?: string; // AppSettings.paymentConfig.currency
+    timezone?: string; // AppSettings.timezone, for new events
+    speakers?: Speaker[]; // The speaker library
+    venues?: Venue[]; // The venue library
 }
 
-export const EventEditor: React.FC<EventEditorProps> = ({ initialEvent, onSave, assets, onAddAsset, onPublish }) => {
+// Matches the server's defaults for events that never had reminders set
+const DEFAULT_REMINDERS: EventReminders = { offsetMinutes: [24 * 60, 60] };
+
+const REMINDER_UNITS = [
+    { label: 'minutes', minutes: 1 },
+    { label: 'hours', minutes: 60 },
+    { label: 'days', minutes: 24 * 60 },
+];
+
+const TIMEZONES = Intl.supportedValuesOf('timeZone');
+
+// "1 day before", "90 minutes before"
+const describeOffset = (minutes: number) => {
+    const unit = [...REMINDER_UNITS].reverse().find(u => minutes % u.minutes === 0) || REMINDER_UNITS[0];
+    const amount = minutes / unit.minutes;
+    return `${amount} ${amount === 1 ? unit.label.slice(0, -1) : unit.label} before`;
+};
+
+export const EventEditor: React.FC<EventEditorProps> = ({ initialEvent, series, onSave, onSaveSeries, assets, onAddAsset, onPublish, currency, timezone, speakers = [], venues = [] }) => {
     const navigate = useNavigate();
     const [loadingAI, setLoadingAI] = useState<string | null>(null);
     const [publishStatus, setPublishStatus] = useState<'idle' | 'publishing' | 'success' | 'error'>('idle');
@@ -23,6 +54,7 @@ export const EventEditor: React.FC<EventEditorProps> = ({ initialEvent, onSave,
         title: '',
         description: '',
         date: '',
+        timezone: timezone || browserTimezone(),
         location: '',
         capacity: 100,
         bookings: 0,
@@ -68,16 +100,92 @@ export const EventEditor: React.FC<EventEditorProps> = ({ initialEvent, onSave,
         } finally { setLoadingAI(null); }
     };
 
-    // 3. AI Agenda Handler
+    // 3. Agenda: a grid of days (tabs) by tracks (columns)
+    const [addedDays, setAddedDays] = useState(0);
+    const [agendaDay, setAgendaDay] = useState(1);
+    const [newTrack, setNewTrack] = useState('');
+    const dayCount = Math.max(agendaDayCount(formData), addedDays);
+    const tracks = agendaTracks(formData);
+
     const handleAiAgenda = async () => {
         if (!formData.title) { alert("Please enter a title first."); return; }
         setLoadingAI('agenda');
         try {
-            const agenda = await generateEventAgenda(formData.title, 6); // Default 6 hours
+            // A single-day event with an end time is planned to fit it; otherwise 6 hours a day
+            const singleDayHours = dayCount === 1 && formData.date && formData.endDate
+                ? Math.round(wallTimeDifference(formData.date, formData.endDate) / (60 * 60 * 1000))
+                : 0;
+            const agenda = await generateEventAgenda(formData.title, {
+                days: dayCount,
+                hoursPerDay: singleDayHours > 0 ? singleDayHours : 6,
+                startTime: formData.date.slice(11, 16) || undefined,
+                tracks: tracks.length > 1 ? tracks : undefined
+            });
             setFormData(prev => ({ ...prev, agenda }));
         } finally { setLoadingAI(null); }
     };
 
+    const handleAddTrack = () => {
+        const name = newTrack.trim();
+        if (!name || tracks.includes(name)) return;
+        // Existing sessions without a track stay together in a first "Main" track
+        const base = tracks.length === 0 && formData.agenda.length > 0 ? ['Main'] : tracks;
+        setFormData(prev => ({ ...prev, tracks: [...base, name] }));
+        setNewTrack('');
+    };
+
+    const handleRenameTrack = (oldName: string, name: string) => {
+        setFormData(prev => ({
+            ...prev,
+            tracks: agendaTracks(prev).map(t => t === oldName ? name : t),
+            agenda: prev.agenda.map(item => item.track === oldName ? { ...item, track: name } : item)
+        }));
+    };
+
+    const handleRemoveTrack = (name: string) => {
+        const sessions = formData.agenda.filter(item => itemTrack(item, tracks) === name).length;
+        if (sessions > 0 && !window.confirm(`Remove the ${name} track and its ${sessions} ${sessions === 1 ? 'session' : 'sessions'}?`)) return;
+        setFormData(prev => ({
+            ...prev,
+            tracks: agendaTracks(prev).filter(t => t !== name),
+            agenda: prev.agenda.filter(item => itemTrack(item, tracks) !== name)
+        }));
+    };
+
+    // New sessions start where the last one in the column ends
+    const handleAddSession = (track: string) => {
+        const column = formData.agenda.filter(item => itemDay(item) === agendaDay && itemTrack(item, tracks) === track).sort((a, b) => a.time.localeCompare(b.time));
+        const last = column[column.length - 1];
+        const time = last ? (last.endTime || last.time) : (agendaDay === 1 && formData.date.slice(11, 16)) || '09:00';
+        const session: AgendaItem = { id: Math.random().toString(36).substr(2, 9), time, title: '', description: '', ...(agendaDay > 1 ? { day: agendaDay } : {}), ...(track ? { track } : {}) };
+        setFormData(prev => ({ ...prev, agenda: [...prev.agenda, session] }));
+    };
+
+    const updateAgendaItem = (index: number, changes: Partial<AgendaItem>) => {
+        setFormData(prev => ({ ...prev, agenda: prev.agenda.map((item, i) => i === index ? { ...item, ...changes } : item) }));
+    };
+
+    // Picking a venue fills in the location text and its usual capacity; "Other" keeps what was typed
+    const handleVenueChange = (venueId: string) => {
+        const venue = venues.find(v => v.id === venueId);
+        setFormData(prev => venue
+            ? { ...prev, venueId: venue.id, room: undefined, location: venueLocation(venue), capacity: venue.defaultCapacity || prev.capacity }
+            : { ...prev, venueId: undefined, room: undefined });
+    };
+    const venue = findVenue(formData, venues);
+
+    const toggleEventSpeaker = (speakerId: string) => {
+        setFormData(prev => {
+            const ids = prev.speakerIds || [];
+            const speakerIds = ids.includes(speakerId) ? ids.filter(id => id !== speakerId) : [...ids, speakerId];
+            return { ...prev, speakerIds: speakerIds.length ? speakerIds : undefined };
+        });
+    };
+
+    const removeAgendaItem = (index: number) => {
+        setFormData(prev => ({ ...prev, agenda: prev.agenda.filter((_, i) => i !== index) }));
+    };
+
     // 4. AI Tags Handler
     const handleAiTags = async () => {
         if (!formData.description) { alert("Please generate a description first."); return; }
@@ -97,22 +205,167 @@ export const EventEditor: React.FC<EventEditorProps> = ({ initialEvent, onSave,
         } finally { setLoadingAI(null); }
     };
 
-    const handleSubmit = (e: React.FormEvent) => {
+    // Ticket Tiers
+    const ticketTypes = formData.ticketTypes || [];
+
+    const handleAddTier = () => {
+        const tier: TicketType = {
+            id: Math.random().toString(36).substr(2, 9),
+            name: ticketTypes.length === 0 ? 'Standard' : '',
+            price: formData.price,
+            quantity: formData.capacity
+        };
+        setFormData(prev => ({ ...prev, ticketTypes: [...(prev.ticketTypes || []), tier] }));
+    };
+
+    const handleUpdateTier = (id: string, changes: Partial<TicketType>) => {
+        setFormData(prev => ({
+            ...prev,
+            ticketTypes: (prev.ticketTypes || []).map(t => t.id === id ? { ...t, ...changes } : t)
+        }));
+    };
+
+    const handleRemoveTier = (id: string) => {
+        setFormData(prev => ({ ...prev, ticketTypes: (prev.ticketTypes || []).filter(t => t.id !== id) }));
+    };
+
+    // Reminders
+    const reminders = formData.reminders || DEFAULT_REMINDERS;
+    const [newReminder, setNewReminder] = useState({ amount: '2', unitMinutes: 60 });
+
+    const handleAddReminder = () => {
+        const minutes = Math.round(parseFloat(newReminder.amount) * newReminder.unitMinutes);
+        if (!(minutes > 0) || reminders.offsetMinutes.includes(minutes)) return;
+        setFormData(prev => ({ ...prev, reminders: { ...reminders, offsetMinutes: [...reminders.offsetMinutes, minutes].sort((a, b) => b - a) } }));
+    };
+
+    const handleRemoveReminder = (minutes: number) => {
+        setFormData(prev => ({ ...prev, reminders: { ...reminders, offsetMinutes: reminders.offsetMinutes.filter(m => m !== minutes) } }));
+    };
+
+    // Schedule
+    const endsBeforeStart = !!(formData.date && formData.endDate && formData.endDate <= formData.date);
+    // Only possible for events restored from elsewhere; the picker offers real zones
+    const hasUnknownZone = !!formData.timezone && !isValidTimezone(formData.timezone);
+
+    const handleStartChange = (date: string) => {
+        setFormData(prev => {
+            if (!prev.date || !prev.endDate || !date) return { ...prev, date };
+            // Keep the duration when the start moves
+            return { ...prev, date, endDate: shiftWallTime(date, wallTimeDifference(prev.date, prev.endDate)) };
+        });
+    };
+
+    // Recurrence. Occurrences are edited one at a time unless "all future" is chosen, which
+    // regenerates the series from this occurrence on with the current rule and details.
+    const isOccurrence = !!initialEvent?.seriesId;
+    const [seriesScope, setSeriesScope] = useState<'this' | 'future'>('this');
+    const canEditRule = !isOccurrence || seriesScope === 'future';
+    const savesSeries = !!formData.recurrence && canEditRule;
+    const recurrence = formData.recurrence;
+
+    const updateRecurrence = (changes: Partial<RecurrenceRule>) => {
+        setFormData(prev => prev.recurrence ? { ...prev, recurrence: { ...prev.recurrence, ...changes } } : prev);
+    };
+
+    const handleRepeatChange = (frequency: string) => {
+        if (frequency === 'none') {
+            setFormData(prev => ({ ...prev, recurrence: undefined }));
+        } else {
+            setFormData(prev => ({ ...prev, recurrence: { ...(prev.recurrence || defaultRecurrence(prev.date)), frequency: frequency as RecurrenceRule['frequency'] } }));
+        }
+    };
+
+    const toggleWeekday = (weekday: number) => {
+        if (!recurrence) return;
+        const weekdays = recurrence.weekdays.includes(weekday) ? recurrence.weekdays.filter(d => d !== weekday) : [...recurrence.weekdays, weekday];
+        if (weekdays.length > 0) updateRecurrence({ weekdays });
+    };
+
+    const toggleException = (day: string) => {
+        if (!recurrence) return;
+        const exceptions = recurrence.exceptions || [];
+        updateRecurrence({ exceptions: exceptions.includes(day) ? exceptions.filter(d => d !== day) : [...exceptions, day] });
+    };
+
+    // The occurrences to save for the series, matched by day to the existing ones from this
+    // occurrence on (so they keep their ids, bookings and Stripe products), and those to drop
+    const planSeries = (template: Event) => {
+        const seriesId = template.seriesId || Math.random().toString(36).substr(2, 9);
+        const starts = expandRecurrence(template.date, template.recurrence!);
+        const cutoff = initialEvent ? initialEvent.date.slice(0, 10) : '';
+        const existing = initialEvent ? (series?.length ? series : [initialEvent]).filter(e => e.date.slice(0, 10) >= cutoff) : [];
+
+        const saved = starts.map(start => {
+            const match = existing.find(e => e.date.slice(0, 10) === start.slice(0, 10)) || existing.find(e => e.id === occurrenceId(seriesId, start));
+            return match
+                ? updateOccurrence({ ...match, seriesId }, { ...template, seriesId }, start)
+                : buildOccurrences({ ...template, seriesId }, seriesId, [start])[0];
+        });
+        // The occurrence being edited goes first, so publishing hands its server copy back
+        saved.sort((a, b) => (b.id === template.id ? 1 : 0) - (a.id === template.id ? 1 : 0));
+        const removed = existing.filter(e => !saved.some(o => o.id === e.id));
+        return { saved, removed };
+    };
+
+    // Dates with bookings are never dropped here: deleting them would strand the attendees without
+    // a refund or a word. They have to be cancelled from Bookings first, which refunds and emails them.
+    const confirmSeriesPlan = async ({ saved, removed }: ReturnType<typeof planSeries>) => {
+        if (saved.length === 0) { alert("The repeat rule doesn't produce any dates. Check the days and the end date."); return false; }
+        if (removed.length === 0) return true;
+
+        // The ledger is the truth; the local counts only cover what was last synced
+        const stats = await BookingService.getStats().catch(() => null);
+        const booked = removed.filter(e => (stats ? stats[e.id]?.bookings || 0 : 0) > 0 || e.bookings > 0);
+        if (booked.length > 0) {
+            alert(`This change would remove ${booked.length} ${booked.length === 1 ? 'date that has' : 'dates that have'} bookings (${booked.map(e => e.date.slice(0, 10)).join(', ')}). Cancel those bookings from the Bookings page first so attendees are refunded and told, or keep the dates in the schedule.`);
+            return false;
+        }
+        return window.confirm(`This removes ${removed.length} ${removed.length === 1 ? 'occurrence' : 'occurrences'} that no longer fit the schedule. Continue?`);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        onSave(formData);
+        if (endsBeforeStart) { alert("The event must end after it starts."); return; }
+        if (hasUnknownZone) { alert(`"${formData.timezone}" isn't a time zone. Pick one from the list.`); return; }
+        if (savesSeries && onSaveSeries) {
+            const plan = planSeries(formData);
+            if (!(await confirmSeriesPlan(plan))) return;
+            await onSaveSeries(plan.saved, plan.removed.map(e => e.id));
+        } else {
+            onSave(formData);
+        }
         navigate('/');
     };
 
     const handlePublishClick = async () => {
         if (!onPublish) return;
+        if (endsBeforeStart) { alert("The event must end after it starts."); return; }
+        if (hasUnknownZone) { alert(`"${formData.timezone}" isn't a time zone. Pick one from the list.`); return; }
         setPublishStatus('publishing');
         
         // Auto-set status to published if it's draft
         const eventToPublish = { ...formData, status: 'published' as const };
+
+        if (savesSeries) {
+            const plan = planSeries(eventToPublish);
+            if (!(await confirmSeriesPlan(plan))) { setPublishStatus('idle'); return; }
+            try {
+                await onPublish(plan.saved, plan.removed.map(e => e.id));
+                navigate('/');
+            } catch (e) {
+                console.error(e);
+                setPublishStatus('error');
+                setTimeout(() => setPublishStatus('idle'), 3000);
+            }
+            return;
+        }
         setFormData(eventToPublish);
 
         try {
-            await onPublish(eventToPublish);
+            // Keep the server's Stripe IDs so a later Save doesn't write stale ones back
+            const publishedEvent = await onPublish(eventToPublish);
+            if (publishedEvent) setFormData(publishedEvent);
             setPublishStatus('success');
             setTimeout(() => setPublishStatus('idle'), 3000);
         } catch (e) {
@@ -259,23 +512,196 @@ export const EventEditor: React.FC<EventEditorProps> = ({ initialEvent, onSave,
                                     Auto-Build Agenda
                                 </button>
                             </div>
-                            <div className="space-y-2">
-                                {formData.agenda.length === 0 ? (
-                                    <div className="text-center py-8 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-lg">
-                                        No agenda items yet. Use AI to generate one.
-                                    </div>
-                                ) : (
-                                    formData.agenda.map((item, idx) => (
-                                        <div key={idx} className="flex gap-4 p-3 bg-gray-50 rounded border border-gray-100 items-start">
-                                            <span className="font-mono text-brand text-sm whitespace-nowrap bg-brand/10 px-2 py-1 rounded">{item.time}</span>
-                                            <div>
-                                                <div className="font-medium text-dark text-sm">{item.title}</div>
-                                                <div className="text-grayText text-xs mt-0.5">{item.description}</div>
-                                            </div>
+                            {/* Days */}
+                            <div className="flex flex-wrap gap-2 mb-4">
+                                {Array.from({ length: dayCount }, (_, i) => i + 1).map(day => (
+                                    <button
+                                        key={day}
+                                        type="button"
+                                        onClick={() => setAgendaDay(day)}
+                                        className={`px-3 py-1.5 rounded text-xs font-medium border transition-colors ${agendaDay === day ? 'bg-brand text-white border-brand' : 'bg-white text-grayText border-gray-300 hover:border-brand'}`}
+                                    >
+                                        Day {day}{formData.date && <span className="opacity-70"> · {dayDate(formData, day, { timezone })}</span>}
+                                    </button>
+                                ))}
+                                <button type="button" onClick={() => setAddedDays(dayCount + 1)} className="px-3 py-1.5 rounded text-xs font-medium border border-dashed border-gray-300 text-grayText hover:border-brand hover:text-brand flex items-center gap-1">
+                                    <Plus className="w-3 h-3" /> Day
+                                </button>
+                            </div>
+
+                            {/* Tracks, side by side */}
+                            <div className="overflow-x-auto">
+                                <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.max(1, tracks.length)}, minmax(220px, 1fr))` }}>
+                                    {(tracks.length > 0 ? tracks : ['']).map((track, trackIndex) => (
+                                        <div key={trackIndex} className="bg-gray-50 rounded border border-gray-100 p-2 space-y-2">
+                                            {track && (
+                                                <div className="flex items-center gap-1">
+                                                    <input
+                                                        value={track}
+                                                        onChange={e => e.target.value && handleRenameTrack(track, e.target.value)}
+                                                        className="flex-1 min-w-0 bg-transparent text-sm font-semibold text-dark border-b border-transparent hover:border-gray-300 focus:border-brand outline-none"
+                                                    />
+                                                    <button type="button" onClick={() => handleRemoveTrack(track)} className="text-gray-400 hover:text-red-500" title="Remove track"><X className="w-3 h-3" /></button>
+                                                </div>
+                                            )}
+                                            {formData.agenda
+                                                .map((item, index) => ({ item, index }))
+                                                .filter(({ item }) => itemDay(item) === agendaDay && itemTrack(item, tracks) === track)
+                                                .sort((a, b) => a.item.time.localeCompare(b.item.time))
+                                                .map(({ item, index }) => (
+                                                    <div key={index} className="bg-white rounded border border-gray-200 p-2 space-y-1">
+                                                        <div className="flex items-center gap-1">
+                                                            <input type="time" value={item.time} onChange={e => updateAgendaItem(index, { time: e.target.value })} className="w-[5.5rem] font-mono text-brand text-xs bg-brand/10 px-1 py-0.5 rounded outline-none" />
+                                                            <span className="text-gray-400 text-xs">–</span>
+                                                            <input type="time" value={item.endTime || ''} onChange={e => updateAgendaItem(index, { endTime: e.target.value || undefined })} className="w-[5.5rem] font-mono text-brand text-xs bg-brand/10 px-1 py-0.5 rounded outline-none" />
+                                                            <button type="button" onClick={() => removeAgendaItem(index)} className="ml-auto text-gray-400 hover:text-red-500" title="Remove session"><Trash2 className="w-3 h-3" /></button>
+                                                        </div>
+                                                        <input value={item.title} onChange={e => updateAgendaItem(index, { title: e.target.value })} placeholder="Session title" className="w-full font-medium text-dark text-sm outline-none border-b border-transparent focus:border-brand" />
+                                                        {speakers.length > 0 && (
+                                                            <div className="flex flex-wrap items-center gap-1">
+                                                                {findSpeakers(item.speakerIds, speakers).map(speaker => (
+                                                                    <span key={speaker.id} className="bg-brand/10 text-brand text-[11px] pl-1.5 pr-1 py-0.5 rounded flex items-center gap-1">
+                                                                        {speaker.name}
+                                                                        <button type="button" onClick={() => updateAgendaItem(index, { speakerIds: item.speakerIds!.filter(id => id !== speaker.id) })} className="hover:text-red-500"><X className="w-2.5 h-2.5" /></button>
+                                                                    </span>
+                                                                ))}
+                                                                <select
+                                                                    value=""
+                                                                    onChange={e => e.target.value && updateAgendaItem(index, { speakerIds: [...(item.speakerIds || []), e.target.value] })}
+                                                                    className="text-[11px] text-grayText bg-transparent outline-none"
+                                                                >
+                                                                    <option value="">+ Speaker</option>
+                                                                    {speakers.filter(speaker => !item.speakerIds?.includes(speaker.id)).map(speaker => <option key={speaker.id} value={speaker.id}>{speaker.name}</option>)}
+                                                                </select>
+                                                            </div>
+                                                        )}
+                                                        <div className="flex items-center gap-2">
+                                                            <input value={item.room || ''} onChange={e => updateAgendaItem(index, { room: e.target.value || undefined })} placeholder="Room" className="flex-1 min-w-0 text-xs text-grayText outline-none border-b border-transparent focus:border-brand" />
+                                                            {formData.sessionSignups && <input
+                                                                type="number"
+                                                                min={1}
+                                                                value={item.capacity ?? ''}
+                                                                onChange={e => updateAgendaItem(index, { capacity: e.target.value ? Math.max(1, parseInt(e.target.value)) : undefined })}
+                                                                placeholder="Seats"
+                                                                title="Seat limit for sign-ups; leave empty for unlimited"
+                                                                className="w-16 text-xs text-grayText outline-none border-b border-transparent focus:border-brand"
+                                                            />}
+                                                        </div>
+                                                        <textarea value={item.description} onChange={e => updateAgendaItem(index, { description: e.target.value })} placeholder="Description" rows={2} className="w-full text-grayText text-xs outline-none resize-none" />
+                                                    </div>
+                                                ))}
+                                            <button type="button" onClick={() => handleAddSession(track)} className="w-full py-1.5 text-xs text-grayText hover:text-brand border border-dashed border-gray-300 hover:border-brand rounded flex items-center justify-center gap-1">
+                                                <Plus className="w-3 h-3" /> Session
+                                            </button>
                                         </div>
-                                    ))
-                                )}
+                                    ))}
+                                </div>
+                            </div>
+                            {formData.agenda.length === 0 && (
+                                <p className="text-center text-xs text-gray-400 italic mt-3">No agenda items yet. Add sessions or use AI to generate them.</p>
+                            )}
+
+                            <div className="flex gap-2 mt-4">
+                                <input
+                                    value={newTrack}
+                                    onChange={e => setNewTrack(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddTrack(); } }}
+                                    placeholder={tracks.length ? 'Another parallel track' : 'Add parallel tracks, e.g. Workshops'}
+                                    className="flex-1 bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                />
+                                <button type="button" onClick={handleAddTrack} className="px-3 py-2 rounded bg-gray-100 hover:bg-gray-200 text-dark border border-gray-200 text-sm flex items-center gap-1">
+                                    <Plus className="w-4 h-4" /> Track
+                                </button>
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-grayText mt-4 cursor-pointer">
+                                <input type="checkbox" checked={!!formData.sessionSignups} onChange={e => setFormData(prev => ({ ...prev, sessionSignups: e.target.checked || undefined }))} className="accent-brand" />
+                                Ticket holders sign up for sessions (set seat limits on each session)
+                            </label>
+                        </section>
+
+                        {/* Ticket Tiers Section */}
+                        <section className="bg-white p-6 rounded-xl border border-accent/20 shadow-sm">
+                            <div className="flex justify-between items-center mb-4">
+                                <h3 className="text-lg font-medium text-dark flex items-center gap-2">
+                                    <Ticket className="w-4 h-4 text-brand" /> Ticket Tiers
+                                </h3>
+                                <button 
+                                    onClick={handleAddTier}
+                                    className="text-xs text-brand hover:text-brand-900 flex items-center gap-1 border border-brand/30 px-3 py-1.5 rounded hover:bg-brand/5 transition"
+                                >
+                                    <Plus className="w-3 h-3" /> Add Tier
+                                </button>
                             </div>
+                            {ticketTypes.length === 0 ? (
+                                <div className="text-center py-6 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-lg text-sm">
+                                    Single ticket at the event price. Add tiers for early-bird, VIP or concession tickets.
+                                </div>
+                            ) : (
+                                <div className="space-y-3">
+                                    {ticketTypes.map(tier => (
+                                        <div key={tier.id} className="p-3 bg-gray-50 rounded border border-gray-100 space-y-3">
+                                            <div className="grid grid-cols-12 gap-3 items-end">
+                                                <div className="col-span-6">
+                                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Name</label>
+                                                    <input 
+                                                        type="text" 
+                                                        value={tier.name}
+                                                        onChange={e => handleUpdateTier(tier.id, { name: e.target.value })}
+                                                        className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                                        placeholder="e.g. Early Bird"
+                                                    />
+                                                </div>
+                                                <div className="col-span-2">
+                                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Price ({currencySymbol(currency)})</label>
+                                                    <input 
+                                                        type="number" 
+                                                        value={tier.price}
+                                                        onChange={e => handleUpdateTier(tier.id, { price: parseFloat(e.target.value) || 0 })}
+                                                        className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                                    />
+                                                </div>
+                                                <div className="col-span-3">
+                                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Quantity</label>
+                                                    <input 
+                                                        type="number" 
+                                                        value={tier.quantity}
+                                                        onChange={e => handleUpdateTier(tier.id, { quantity: parseInt(e.target.value) || 0 })}
+                                                        className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                                    />
+                                                </div>
+                                                <div className="col-span-1 flex justify-end">
+                                                    <button onClick={() => handleRemoveTier(tier.id)} className="p-2 text-red-500 hover:bg-red-50 rounded transition" title="Remove Tier">
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div>
+                                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Sales Start</label>
+                                                    <input 
+                                                        type="datetime-local" 
+                                                        value={tier.salesStart || ''}
+                                                        onChange={e => handleUpdateTier(tier.id, { salesStart: e.target.value || undefined })}
+                                                        className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Sales End</label>
+                                                    <input 
+                                                        type="datetime-local" 
+                                                        value={tier.salesEnd || ''}
+                                                        onChange={e => handleUpdateTier(tier.id, { salesEnd: e.target.value || undefined })}
+                                                        className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                                    />
+                                                </div>
+                                            </div>
+                                        </div>
+                                    ))}
+                                    <p className="text-[10px] text-gray-400 leading-tight">
+                                        Each tier is capped at its own quantity, and all tiers together are capped at the event capacity ({formData.capacity}).
+                                    </p>
+                                </div>
+                            )}
                         </section>
 
                     </div>
@@ -344,14 +770,68 @@ export const EventEditor: React.FC<EventEditorProps> = ({ initialEvent, onSave,
                                 </div>
 
                                 <div>
-                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Date & Time</label>
+                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Venue</label>
+                                    <select
+                                        value={venue?.id || ''}
+                                        onChange={e => handleVenueChange(e.target.value)}
+                                        className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                    >
+                                        <option value="">Other location</option>
+                                        {venues.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+                                    </select>
+                                    {venue ? (
+                                        venue.rooms.length > 0 && (
+                                            <select
+                                                value={formData.room || ''}
+                                                onChange={e => setFormData({...formData, room: e.target.value || undefined})}
+                                                className="w-full mt-2 bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                            >
+                                                <option value="">Whole venue</option>
+                                                {venue.rooms.map(room => <option key={room} value={room}>{room}</option>)}
+                                            </select>
+                                        )
+                                    ) : (
+                                        <input
+                                            type="text"
+                                            value={formData.location}
+                                            onChange={e => setFormData({...formData, location: e.target.value})}
+                                            placeholder={venues.length ? 'Address or online link' : 'Address or online link (or add Venues to pick from)'}
+                                            className="w-full mt-2 bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                        />
+                                    )}
+                                </div>
+                                <div>
+                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Starts</label>
                                     <input 
                                         type="datetime-local" 
                                         value={formData.date}
-                                        onChange={e => setFormData({...formData, date: e.target.value})}
+                                        onChange={e => handleStartChange(e.target.value)}
                                         className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
                                     />
                                 </div>
+                                <div>
+                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Ends</label>
+                                    <input
+                                        type="datetime-local"
+                                        value={formData.endDate || ''}
+                                        min={formData.date || undefined}
+                                        onChange={e => setFormData({...formData, endDate: e.target.value || undefined})}
+                                        className={`w-full bg-white border rounded px-3 py-2 text-dark text-sm ${endsBeforeStart ? 'border-red-400' : 'border-gray-300'}`}
+                                    />
+                                    <p className={`text-xs mt-1 ${endsBeforeStart ? 'text-red-600' : 'text-grayText'}`}>
+                                        {endsBeforeStart ? 'Must be after the start.' : 'Optional; calendars assume 2 hours without it.'}
+                                    </p>
+                                </div>
+                                <div>
+                                    <label className="block text-xs uppercase font-semibold text-grayText mb-1">Time Zone</label>
+                                    <select
+                                        value={formData.timezone || timezone || browserTimezone()}
+                                        onChange={e => setFormData({...formData, timezone: e.target.value})}
+                                        className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                    >
+                                        {TIMEZONES.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+                                    </select>
+                                </div>
                                 <div className="grid grid-cols-2 gap-4">
                                     <div>
                                         <label className="block text-xs uppercase font-semibold text-grayText mb-1">Capacity</label>
@@ -363,16 +843,199 @@ export const EventEditor: React.FC<EventEditorProps> = ({ initialEvent, onSave,
                                         />
                                     </div>
                                     <div>
-                                        <label className="block text-xs uppercase font-semibold text-grayText mb-1">Price ($)</label>
+                                        <label className="block text-xs uppercase font-semibold text-grayText mb-1">Price ({currencySymbol(currency)})</label>
                                         <input 
                                             type="number" 
                                             value={formData.price}
-                                            onChange={e => setFormData({...formData, price: parseInt(e.target.value)})}
+                                            disabled={ticketTypes.length > 0}
+                                            title={ticketTypes.length > 0 ? 'Priced per ticket tier' : undefined}
+                                            onChange={e => setFormData({...formData, price: parseFloat(e.target.value) || 0})}
+                                            className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm disabled:bg-gray-50 disabled:text-gray-400"
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+                        </section>
+
+                        {/* Repeat */}
+                        <section className="bg-white p-6 rounded-xl border border-accent/20 shadow-sm">
+                            <h3 className="text-lg font-medium text-dark mb-4 flex items-center gap-2">
+                                <Repeat className="w-4 h-4 text-brand" /> Repeat
+                            </h3>
+                            {isOccurrence && (
+                                <div className="bg-brand/5 border border-brand/20 rounded p-3 mb-4 text-sm space-y-2">
+                                    <p className="text-dark">Part of a series{initialEvent?.recurrence && <>: {describeRecurrence(initialEvent.recurrence)}</>}.</p>
+                                    <label className="flex items-center gap-2 text-dark">
+                                        <input type="radio" checked={seriesScope === 'this'} onChange={() => { setSeriesScope('this'); setFormData(prev => ({ ...prev, recurrence: initialEvent?.recurrence })); }} className="text-brand focus:ring-brand" />
+                                        Change this occurrence only
+                                    </label>
+                                    <label className="flex items-center gap-2 text-dark">
+                                        <input type="radio" checked={seriesScope === 'future'} onChange={() => setSeriesScope('future')} className="text-brand focus:ring-brand" />
+                                        Change this and all future occurrences
+                                    </label>
+                                </div>
+                            )}
+                            <select
+                                value={recurrence?.frequency || 'none'}
+                                disabled={!canEditRule}
+                                onChange={e => handleRepeatChange(e.target.value)}
+                                className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm mb-4 disabled:bg-gray-50 disabled:text-gray-400"
+                            >
+                                {!isOccurrence && <option value="none">Does not repeat</option>}
+                                <option value="weekly">Weekly</option>
+                                <option value="monthly">Monthly</option>
+                            </select>
+                            {recurrence && canEditRule && (
+                                <div className="space-y-4">
+                                    <div className="flex items-center gap-2 text-sm text-dark">
+                                        Every
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={recurrence.interval}
+                                            onChange={e => updateRecurrence({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                                            className="w-16 bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                        />
+                                        {recurrence.frequency === 'weekly' ? 'week(s)' : 'month(s)'}
+                                    </div>
+                                    {recurrence.frequency === 'weekly' ? (
+                                        <div className="flex gap-1">
+                                            {WEEKDAY_NAMES.map((name, weekday) => (
+                                                <button
+                                                    key={name}
+                                                    type="button"
+                                                    onClick={() => toggleWeekday(weekday)}
+                                                    title={name}
+                                                    className={`w-8 h-8 rounded-full text-xs font-semibold border transition-colors ${recurrence.weekdays.includes(weekday) ? 'bg-brand text-white border-brand' : 'bg-white text-grayText border-gray-300 hover:border-brand'}`}
+                                                >
+                                                    {name[0]}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    ) : (
+                                        <div className="flex gap-2 items-center text-sm text-dark">
+                                            On the
+                                            <select
+                                                value={recurrence.weekOfMonth || 1}
+                                                onChange={e => updateRecurrence({ weekOfMonth: parseInt(e.target.value) })}
+                                                className="bg-white border border-gray-300 rounded px-2 py-2 text-dark text-sm"
+                                            >
+                                                {WEEK_OF_MONTH_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                            </select>
+                                            <select
+                                                value={recurrence.weekdays[0]}
+                                                onChange={e => updateRecurrence({ weekdays: [parseInt(e.target.value)] })}
+                                                className="flex-1 bg-white border border-gray-300 rounded px-2 py-2 text-dark text-sm"
+                                            >
+                                                {WEEKDAY_NAMES.map((name, weekday) => <option key={name} value={weekday}>{name}</option>)}
+                                            </select>
+                                        </div>
+                                    )}
+                                    <div>
+                                        <label className="block text-xs uppercase font-semibold text-grayText mb-1">Until</label>
+                                        <input
+                                            type="date"
+                                            value={recurrence.until}
+                                            min={formData.date.slice(0, 10) || undefined}
+                                            onChange={e => updateRecurrence({ until: e.target.value })}
                                             className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
                                         />
                                     </div>
+                                    {formData.date ? (
+                                        <div>
+                                            <p className="text-xs uppercase font-semibold text-grayText mb-1">
+                                                Dates ({expandRecurrence(formData.date, recurrence).length}) <span className="normal-case font-normal">click to skip</span>
+                                            </p>
+                                            <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+                                                {previewRecurrence(formData.date, recurrence).map(({ day, skipped }) => (
+                                                    <button
+                                                        key={day}
+                                                        type="button"
+                                                        onClick={() => toggleException(day)}
+                                                        className={`px-2 py-1 rounded text-xs border ${skipped ? 'line-through text-gray-400 border-gray-200' : 'bg-brand/5 text-brand border-brand/20'}`}
+                                                    >
+                                                        {new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            <p className="text-xs text-grayText mt-2">Each date becomes its own event with its own capacity and bookings. Up to {MAX_OCCURRENCES} dates.</p>
+                                        </div>
+                                    ) : (
+                                        <p className="text-xs text-gray-400">Set a start date to see the dates.</p>
+                                    )}
                                 </div>
+                            )}
+                        </section>
+
+                        {/* Reminders */}
+                        <section className="bg-white p-6 rounded-xl border border-accent/20 shadow-sm">
+                            <h3 className="text-lg font-medium text-dark mb-4 flex items-center gap-2">
+                                <BellRing className="w-4 h-4 text-brand" /> Reminders
+                            </h3>
+                            <div className="flex flex-wrap gap-2 mb-4">
+                                {reminders.offsetMinutes.map(minutes => (
+                                    <span key={minutes} className="flex items-center gap-1 bg-brand/5 text-brand px-2 py-1 rounded text-xs border border-brand/20">
+                                        {describeOffset(minutes)}
+                                        <button type="button" onClick={() => handleRemoveReminder(minutes)} className="hover:text-red-500" title="Remove"><X className="w-3 h-3" /></button>
+                                    </span>
+                                ))}
+                                {reminders.offsetMinutes.length === 0 && <span className="text-xs text-gray-400">No reminders will be sent.</span>}
                             </div>
+                            <div className="flex gap-2 mb-4">
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={newReminder.amount}
+                                    onChange={e => setNewReminder({ ...newReminder, amount: e.target.value })}
+                                    className="w-20 bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                />
+                                <select
+                                    value={newReminder.unitMinutes}
+                                    onChange={e => setNewReminder({ ...newReminder, unitMinutes: parseInt(e.target.value) })}
+                                    className="flex-1 bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                                >
+                                    {REMINDER_UNITS.map(u => <option key={u.minutes} value={u.minutes}>{u.label} before</option>)}
+                                </select>
+                                <button type="button" onClick={handleAddReminder} className="px-3 py-2 rounded bg-gray-100 hover:bg-gray-200 text-dark border border-gray-200" title="Add reminder">
+                                    <Plus className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-dark">
+                                <input
+                                    type="checkbox"
+                                    checked={!!reminders.sms}
+                                    onChange={e => setFormData(prev => ({ ...prev, reminders: { ...reminders, sms: e.target.checked } }))}
+                                    className="rounded border-gray-300 text-brand focus:ring-brand"
+                                />
+                                Also send by SMS
+                            </label>
+                            <p className="text-xs text-grayText mt-2">Confirmed bookings are emailed at each time. SMS goes to bookers who gave a phone number, through the server's SMS provider.</p>
+                        </section>
+
+                        {/* Speakers */}
+                        <section className="bg-white p-6 rounded-xl border border-accent/20 shadow-sm">
+                            <h3 className="text-lg font-medium text-dark mb-4 flex items-center gap-2">
+                                <Mic className="w-4 h-4 text-brand" /> Speakers
+                            </h3>
+                            {speakers.length === 0 ? (
+                                <p className="text-xs text-grayText">Add teachers and facilitators in the <Link to="/speakers" className="text-brand hover:underline">Speakers</Link> library to feature them here.</p>
+                            ) : (
+                                <>
+                                    <div className="flex flex-wrap gap-2">
+                                        {speakers.map(speaker => (
+                                            <button
+                                                key={speaker.id}
+                                                type="button"
+                                                onClick={() => toggleEventSpeaker(speaker.id)}
+                                                className={`px-2 py-1 rounded text-xs border transition-colors ${formData.speakerIds?.includes(speaker.id) ? 'bg-brand text-white border-brand' : 'bg-white text-grayText border-gray-300 hover:border-brand'}`}
+                                            >
+                                                {speaker.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-grayText mt-2">Leading the whole event. Session speakers are picked in the agenda and appear on the page too.</p>
+                                </>
+                            )}
                         </section>
 
                          {/* Tags & SEO */}
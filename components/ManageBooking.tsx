@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { AppSettings, ManageSession, ManagedBooking } from '../types';
+import { PublishService } from '../services/publishService';
+import { formatPrice } from '../utils/currency';
+import { formatEventSchedule } from '../utils/datetime';
+import { Calendar, MapPin, Ticket, Mail, CalendarPlus, UserRoundPen, Loader2, CheckCircle } from 'lucide-react';
+
+interface ManageBookingProps {
+    settings: AppSettings;
+}
+
+const STATUS_STYLES: Record<ManagedBooking['status'], string> = {
+    confirmed: 'bg-emerald-100 text-emerald-700',
+    pending: 'bg-amber-100 text-amber-700',
+    cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const inputClass = "w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none";
+
+// Asks for a fresh magic link; shown on its own at /manage and under an expired link
+const RequestLinkForm: React.FC = () => {
+    const [email, setEmail] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const [isSent, setIsSent] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSending(true);
+        try {
+            await PublishService.requestManageLink(email);
+            setIsSent(true);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Could not send the link. Please try again.");
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    if (isSent) {
+        return (
+            <div className="text-center">
+                <Mail className="w-10 h-10 text-brand mx-auto mb-3" />
+                <p className="font-semibold text-dark">Check your inbox</p>
+                <p className="text-sm text-grayText mt-1">If {email} has any bookings, we've sent it a link to manage them.</p>
+            </div>
+        );
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <label className="block text-sm font-semibold text-dark">Email used for your booking</label>
+            <input required type="email" value={email} onChange={e => setEmail(e.target.value)} className={inputClass} placeholder="you@example.com" />
+            <button type="submit" disabled={isSending} className="w-full bg-brand text-white px-4 py-2 rounded-lg font-medium hover:bg-brand-900 transition flex items-center justify-center gap-2 disabled:opacity-70">
+                {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />} Email Me a Link
+            </button>
+        </form>
+    );
+};
+
+// Public "manage my booking" page. The token in the URL comes from an emailed magic link.
+export const ManageBooking: React.FC<ManageBookingProps> = ({ settings }) => {
+    const { token } = useParams();
+    const [session, setSession] = useState<ManageSession | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [transfer, setTransfer] = useState<{ bookingId: string, ticketNumber: number, name: string, email: string } | null>(null);
+
+    useEffect(() => {
+        if (!token) return;
+        PublishService.getManagedBookings(token)
+            .then(setSession)
+            .catch(e => setError(e instanceof Error && e.message ? e.message : "This link is not valid."));
+    }, [token]);
+
+    const replaceBooking = (updated: ManagedBooking) => {
+        setSession(prev => prev && { ...prev, bookings: prev.bookings.map(b => b.id === updated.id ? updated : b) });
+    };
+
+    const handleCancel = async (booking: ManagedBooking) => {
+        const refundNote = booking.willRefund ? ` You'll be refunded ${formatPrice(booking.amount - (booking.refundedAmount || 0), booking.currency)}.` : '';
+        if (!token || !window.confirm(`Cancel your booking for ${booking.event?.title || 'this event'}?${refundNote} This can't be undone.`)) return;
+        setBusyId(booking.id);
+        try {
+            replaceBooking(await PublishService.cancelManagedBooking(token, booking.id));
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Cancellation failed.");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleTransfer = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!token || !transfer) return;
+        setBusyId(transfer.bookingId);
+        try {
+            replaceBooking(await PublishService.transferTicket(token, transfer.bookingId, transfer.ticketNumber, {
+                name: transfer.name,
+                email: transfer.email || undefined
+            }));
+            setTransfer(null);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Transfer failed.");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="min-h-screen w-full font-sans text-dark p-6" style={{ backgroundColor: settings.brandColor ? `${settings.brandColor}05` : '#FFFBF5' }}>
+            <div className="max-w-2xl mx-auto">
+                <header className="text-center my-8">
+                    <h1 className="text-3xl font-bold text-brand">Manage Your Booking</h1>
+                    {session && <p className="text-grayText mt-1">Bookings for {session.email}</p>}
+                </header>
+
+                {!token || error ? (
+                    <div className="bg-white rounded-[24px] shadow-card border border-gray-100 p-6 max-w-sm mx-auto">
+                        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+                        <RequestLinkForm />
+                    </div>
+                ) : !session ? (
+                    <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 text-brand animate-spin" /></div>
+                ) : session.bookings.length === 0 ? (
+                    <p className="text-center text-grayText py-20">No bookings found for this email.</p>
+                ) : (
+                    <div className="space-y-6">
+                        {session.bookings.map(booking => (
+                            <div key={booking.id} className="bg-white rounded-[24px] shadow-card border border-gray-100 overflow-hidden">
+                                <div className="p-6">
+                                    <div className="flex justify-between items-start gap-4 mb-3">
+                                        <h2 className="text-xl font-bold text-dark">{booking.event?.title || 'Event no longer listed'}</h2>
+                                        <span className={`px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide ${STATUS_STYLES[booking.status]}`}>{booking.status}</span>
+                                    </div>
+                                    {booking.event && (
+                                        <div className="text-sm text-grayText space-y-1 mb-4">
+                                            <p className="flex items-center gap-2"><Calendar className="w-4 h-4 text-brand" /> {formatEventSchedule(booking.event)}</p>
+                                            <p className="flex items-center gap-2"><MapPin className="w-4 h-4 text-brand" /> {booking.event.location}</p>
+                                        </div>
+                                    )}
+                                    <p className="text-sm text-grayText">
+                                        {booking.quantity} {booking.quantity > 1 ? 'tickets' : 'ticket'}{booking.ticketTypeName && ` · ${booking.ticketTypeName}`}
+                                        {booking.amount > 0 && ` · ${formatPrice(booking.amount, booking.currency)}`}
+                                        {!!booking.refundedAmount && ` · ${formatPrice(booking.refundedAmount, booking.currency)} refunded`}
+                                    </p>
+
+                                    {booking.tickets.length > 0 && (
+                                        <ul className="mt-4 divide-y divide-gray-100 border-y border-gray-100">
+                                            {booking.tickets.map(ticket => (
+                                                <li key={ticket.code} className="py-3">
+                                                    <div className="flex items-center justify-between gap-3">
+                                                        <span className="flex items-center gap-2 text-sm">
+                                                            <Ticket className="w-4 h-4 text-brand" />
+                                                            <span className="font-medium text-dark">{ticket.holderName}</span>
+                                                            {ticket.checkedIn && <span className="flex items-center gap-1 text-xs text-emerald-600"><CheckCircle className="w-3 h-3" /> Checked in</span>}
+                                                        </span>
+                                                        <span className="flex items-center gap-3 text-sm">
+                                                            <Link to={`/ticket/${encodeURIComponent(ticket.code)}`} className="text-brand hover:underline">View</Link>
+                                                            {booking.event?.sessionSignups && booking.status !== 'cancelled' && (
+                                                                <a href={`?ticket=${encodeURIComponent(ticket.code)}#/public/${booking.event.id}`} className="text-brand hover:underline">Sessions</a>
+                                                            )}
+                                                            {booking.canTransfer && !ticket.checkedIn && (
+                                                                <button
+                                                                    onClick={() => setTransfer({ bookingId: booking.id, ticketNumber: ticket.ticketNumber, name: '', email: '' })}
+                                                                    className="flex items-center gap-1 text-grayText hover:text-brand"
+                                                                >
+                                                                    <UserRoundPen className="w-4 h-4" /> Transfer
+                                                                </button>
+                                                            )}
+                                                        </span>
+                                                    </div>
+                                                    {transfer?.bookingId === booking.id && transfer.ticketNumber === ticket.ticketNumber && (
+                                                        <form onSubmit={handleTransfer} className="mt-3 p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+                                                            <p className="text-xs text-grayText">The ticket gets a new code; the old one will no longer work at the door.</p>
+                                                            <input required value={transfer.name} onChange={e => setTransfer({ ...transfer, name: e.target.value })} className={inputClass} placeholder="New holder's name" />
+                                                            <input type="email" value={transfer.email} onChange={e => setTransfer({ ...transfer, email: e.target.value })} className={inputClass} placeholder="Their email (optional, we'll send them the ticket)" />
+                                                            <div className="flex gap-2 justify-end">
+                                                                <button type="button" onClick={() => setTransfer(null)} className="px-4 py-2 text-sm text-grayText hover:text-dark">Cancel</button>
+                                                                <button type="submit" disabled={busyId === booking.id} className="px-4 py-2 text-sm font-medium rounded-lg bg-brand text-white hover:bg-brand-900 transition disabled:opacity-70">
+                                                                    Transfer Ticket
+                                                                </button>
+                                                            </div>
+                                                        </form>
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+
+                                    <div className="flex flex-wrap items-center gap-3 mt-4">
+                                        {booking.event && booking.status !== 'cancelled' && (
+                                            <a href={PublishService.calendarUrl(booking.event.id)} className="flex items-center gap-2 px-4 py-2 text-sm rounded-lg border border-gray-200 text-dark hover:border-brand/30 hover:text-brand transition">
+                                                <CalendarPlus className="w-4 h-4" /> Add to Calendar
+                                            </a>
+                                        )}
+                                        {booking.canCancel && (
+                                            <button
+                                                onClick={() => handleCancel(booking)}
+                                                disabled={busyId === booking.id}
+                                                className="px-4 py-2 text-sm font-medium rounded-lg bg-red-50 text-red-600 border border-red-100 hover:bg-red-100 transition disabled:opacity-70"
+                                            >
+                                                {busyId === booking.id ? 'Cancelling...' : booking.willRefund ? 'Cancel & Refund' : 'Cancel Booking'}
+                                            </button>
+                                        )}
+                                    </div>
+                                    {booking.canCancel && booking.willRefund && booking.refundDeadline && (
+                                        <p className="text-xs text-grayText mt-2">Free cancellation until {new Date(booking.refundDeadline).toLocaleString()}.</p>
+                                    )}
+                                    {booking.note && <p className="text-xs text-grayText mt-2">{booking.note}</p>}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { Event, PromoCode, DiscountType } from '../types';
+import { BookingService } from '../services/bookingService';
+import { formatPrice, currencySymbol } from '../utils/currency';
+import { BadgePercent, Plus, Trash2, Loader2 } from 'lucide-react';
+
+interface PromoCodesProps {
+    events: Event[];
+    currency?: string; // AppSettings.paymentConfig.currency
+}
+
+const EMPTY_FORM = { code: '', type: 'percent' as DiscountType, value: '', eventId: '', maxRedemptions: '', expiresAt: '' };
+
+export const PromoCodes: React.FC<PromoCodesProps> = ({ events, currency }) => {
+    const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadPromoCodes = async () => {
+        try {
+            setPromoCodes(await BookingService.getPromoCodes());
+            setError(null);
+        } catch (e) {
+            console.error(e);
+            setError("Could not reach the server. Promo codes are stored by the publishing server.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => { loadPromoCodes(); }, []);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await BookingService.createPromoCode({
+                code: form.code,
+                type: form.type,
+                value: parseFloat(form.value),
+                eventId: form.eventId || undefined,
+                maxRedemptions: form.maxRedemptions ? parseInt(form.maxRedemptions) : undefined,
+                // End of the chosen day, local time
+                expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : undefined
+            });
+            setForm(EMPTY_FORM);
+            await loadPromoCodes();
+        } catch (err) {
+            alert(err instanceof Error ? err.message : "Failed to create the promo code.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggle = async (promo: PromoCode) => {
+        await BookingService.setPromoCodeActive(promo.id, !promo.active);
+        await loadPromoCodes();
+    };
+
+    const handleDelete = async (promo: PromoCode) => {
+        if (!window.confirm(`Delete ${promo.code}? Existing bookings keep their discount.`)) return;
+        await BookingService.deletePromoCode(promo.id);
+        await loadPromoCodes();
+    };
+
+    const discountLabel = (promo: PromoCode) => promo.type === 'percent' ? `${promo.value}% off` : `${formatPrice(promo.value, currency)} off`;
+    const eventTitle = (eventId?: string) => eventId ? (events.find(e => e.id === eventId)?.title || 'Deleted event') : 'All events';
+    const isExpired = (promo: PromoCode) => !!promo.expiresAt && new Date(promo.expiresAt) <= new Date();
+
+    const inputClass = "w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none";
+
+    return (
+        <div className="p-8 h-full overflow-y-auto bg-cream">
+            <header className="mb-8 border-b border-accent/20 pb-6">
+                <h2 className="text-3xl font-bold text-brand mb-2 flex items-center gap-3">
+                    <BadgePercent className="w-7 h-7" /> Promo Codes
+                </h2>
+                <p className="text-grayText">Discount codes visitors can enter on the event page.</p>
+            </header>
+
+            <form onSubmit={handleCreate} className="bg-white rounded-xl border border-accent/20 p-6 shadow-sm mb-8 grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label className="block text-sm font-semibold text-dark mb-1">Code</label>
+                    <input required value={form.code} onChange={e => setForm({...form, code: e.target.value.toUpperCase()})} className={inputClass} placeholder="EARLYBIRD" />
+                </div>
+                <div>
+                    <label className="block text-sm font-semibold text-dark mb-1">Discount</label>
+                    <div className="flex gap-2">
+                        <select value={form.type} onChange={e => setForm({...form, type: e.target.value as DiscountType})} className={inputClass}>
+                            <option value="percent">Percent (%)</option>
+                            <option value="fixed">Amount ({currencySymbol(currency)})</option>
+                        </select>
+                        <input required type="number" min="0" step="0.01" max={form.type === 'percent' ? 100 : undefined} value={form.value} onChange={e => setForm({...form, value: e.target.value})} className={inputClass} />
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-sm font-semibold text-dark mb-1">Applies To</label>
+                    <select value={form.eventId} onChange={e => setForm({...form, eventId: e.target.value})} className={inputClass}>
+                        <option value="">All events</option>
+                        {events.map(e => <option key={e.id} value={e.id}>{e.title}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-semibold text-dark mb-1">Usage Limit</label>
+                    <input type="number" min="1" value={form.maxRedemptions} onChange={e => setForm({...form, maxRedemptions: e.target.value})} className={inputClass} placeholder="Unlimited" />
+                </div>
+                <div>
+                    <label className="block text-sm font-semibold text-dark mb-1">Expires</label>
+                    <input type="date" value={form.expiresAt} onChange={e => setForm({...form, expiresAt: e.target.value})} className={inputClass} />
+                </div>
+                <div className="flex items-end">
+                    <button type="submit" disabled={isSaving} className="w-full bg-brand text-white px-4 py-2 rounded-lg font-medium hover:bg-brand-900 transition flex items-center justify-center gap-2 disabled:opacity-70">
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />} Create Code
+                    </button>
+                </div>
+            </form>
+
+            {isLoading ? (
+                <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 text-brand animate-spin" /></div>
+            ) : error ? (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">{error}</div>
+            ) : promoCodes.length === 0 ? (
+                <div className="text-center py-20 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-xl bg-white/50">
+                    No promo codes yet.
+                </div>
+            ) : (
+                <div className="bg-white rounded-xl border border-accent/20 shadow-sm overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 text-left text-xs uppercase text-grayText">
+                            <tr>
+                                <th className="px-4 py-3">Code</th>
+                                <th className="px-4 py-3">Discount</th>
+                                <th className="px-4 py-3">Event</th>
+                                <th className="px-4 py-3">Used</th>
+                                <th className="px-4 py-3">Expires</th>
+                                <th className="px-4 py-3">Status</th>
+                                <th className="px-4 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {promoCodes.map(promo => (
+                                <tr key={promo.id} className="hover:bg-gray-50/50">
+                                    <td className="px-4 py-3 font-mono font-semibold text-dark">{promo.code}</td>
+                                    <td className="px-4 py-3 text-dark">{discountLabel(promo)}</td>
+                                    <td className="px-4 py-3 text-grayText">{eventTitle(promo.eventId)}</td>
+                                    <td className="px-4 py-3 text-grayText">{promo.redemptions}{promo.maxRedemptions ? ` / ${promo.maxRedemptions}` : ''}</td>
+                                    <td className="px-4 py-3 text-grayText">{promo.expiresAt ? new Date(promo.expiresAt).toLocaleDateString() : 'Never'}</td>
+                                    <td className="px-4 py-3">
+                                        <button
+                                            onClick={() => handleToggle(promo)}
+                                            className={`px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide ${
+                                                isExpired(promo) ? 'bg-gray-100 text-gray-500' :
+                                                promo.active ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'
+                                            }`}
+                                            title={promo.active ? 'Click to pause' : 'Click to activate'}
+                                        >
+                                            {isExpired(promo) ? 'expired' : promo.active ? 'active' : 'paused'}
+                                        </button>
+                                    </td>
+                                    <td className="px-4 py-3 text-right">
+                                        <button onClick={() => handleDelete(promo)} className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors" title="Delete">
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,26 +1,44 @@
 
 import React, { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { Event, AppSettings } from '../types';
-import { Calendar, MapPin, Clock, Ticket, ArrowRight, Share2, CheckCircle, CalendarPlus, X, Facebook, Twitter, Linkedin, Mail, Link as LinkIcon, Loader2 } from 'lucide-react';
+import { Event, AppSettings, Availability, AppliedPromo, AgendaItem, SessionAvailability, Speaker, TicketSchedule, Venue } from '../types';
+import { Calendar, MapPin, Clock, Ticket, ArrowRight, Share2, CheckCircle, CalendarPlus, X, Facebook, Twitter, Linkedin, Mail, Link as LinkIcon, Loader2, ListOrdered, Download, Repeat, Accessibility, Navigation } from 'lucide-react';
 import { generateGoogleCalendarUrl } from '../utils/calendar';
 import { PublishService } from '../services/publishService';
+import { hasTicketTiers, isTierOnSale, lowestPrice, promoDiscount, MAX_GROUP_SIZE } from '../utils/tickets';
+import { formatPrice, roundAmount } from '../utils/currency';
+import { browserTimezone, eventEnd, formatEventDate, formatEventTimeRange, isDifferentZone } from '../utils/datetime';
+import { describeRecurrence, groupBySeries } from '../utils/recurrence';
+import { agendaDayCount, agendaTracks, dayDate, itemTrack, itemsForDay, timeRange } from '../utils/agenda';
+import { eventSpeakerIds, findSpeakers, speakerInitials } from '../utils/speakers';
+import { findVenue, mapUrl } from '../utils/venues';
 
 interface PublicViewProps {
     events: Event[];
     detailMode?: boolean;
     settings: AppSettings;
+    speakers?: Speaker[];
+    venues?: Venue[];
 }
 
-export const PublicView: React.FC<PublicViewProps> = ({ events, detailMode = false, settings }) => {
+export const PublicView: React.FC<PublicViewProps> = ({ events, detailMode = false, settings, speakers = [], venues = [] }) => {
     const { id } = useParams();
+    const [venueFilter, setVenueFilter] = useState<string | null>(null);
 
     if (detailMode && id) {
         const event = events.find(e => e.id === id);
         if (!event) return <div className="min-h-screen flex items-center justify-center text-grayText bg-cream">Event not found</div>;
-        return <EventDetailPage event={event} settings={settings} />;
+        // Other upcoming dates of the same series, to switch between
+        const otherDates = event.seriesId
+            ? events.filter(e => e.seriesId === event.seriesId && e.id !== event.id && eventEnd(e, settings) > new Date()).sort((a, b) => a.date.localeCompare(b.date))
+            : [];
+        return <EventDetailPage key={event.id} event={event} settings={settings} otherDates={otherDates} speakers={speakers} venue={findVenue(event, venues)} />;
     }
 
+    // Only venues with something listed are worth filtering by
+    const listedVenues = venues.filter(v => events.some(e => e.venueId === v.id)).sort((a, b) => a.name.localeCompare(b.name));
+    const listedEvents = venueFilter ? events.filter(e => e.venueId === venueFilter) : events;
+
     return (
         <div className="min-h-screen font-sans text-dark" style={{ backgroundColor: settings.brandColor ? `${settings.brandColor}05` : '#FFFBF5' }}>
             {/* Hero / List */}
@@ -28,40 +46,38 @@ export const PublicView: React.FC<PublicViewProps> = ({ events, detailMode = fal
                 <div className="text-center mb-16">
                     <h1 className="text-[48px] md:text-[63px] font-bold leading-tight mb-6 text-brand">Upcoming Events</h1>
                     <p className="text-[18px] text-grayText max-w-2xl mx-auto">Discover transformative energy healing services that restore balance, reduce stress, and promote optimal mental health.</p>
+                    <a href={PublishService.calendarFeedUrl('webcal')} className="inline-flex items-center gap-2 mt-6 text-sm font-medium text-brand hover:underline">
+                        <CalendarPlus className="w-4 h-4" /> Subscribe to our calendar
+                    </a>
                 </div>
 
+                {listedVenues.length > 1 && (
+                    <div className="flex flex-wrap justify-center gap-3 mb-12">
+                        {[{ id: null, name: 'All venues' }, ...listedVenues].map(v => (
+                            <button
+                                key={v.id || 'all'}
+                                onClick={() => setVenueFilter(v.id)}
+                                className={`px-5 py-2 rounded-pill text-sm font-bold transition-colors ${venueFilter === v.id ? 'bg-brand text-white shadow-soft' : 'bg-white text-dark border border-brand/10 hover:border-brand'}`}
+                            >
+                                {v.name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-[30px]">
-                    {events.length === 0 ? (
+                    {listedEvents.length === 0 ? (
                         <div className="col-span-3 text-center py-20 bg-white rounded-[20px] shadow-container border border-gray-100">
                             <p className="text-grayText text-lg">No public events listed at the moment.</p>
                         </div>
                     ) : (
-                        events.map(event => (
-                            <Link key={event.id} to={`/public/${event.id}`} className="group relative bg-white/90 backdrop-blur-sm rounded-[20px] overflow-hidden shadow-card hover:shadow-hover hover:-translate-y-2 transition-all duration-500 border border-white/50">
-                                <div className="h-64 overflow-hidden relative">
-                                    <img src={event.imageUrl} alt={event.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-700" />
-                                    <div className="absolute inset-0 bg-brand/20 opacity-0 group-hover:opacity-100 transition-opacity duration-500"></div>
-                                    
-                                    <div className="absolute top-4 right-4 bg-white/95 backdrop-blur px-4 py-1.5 rounded-full text-sm font-bold shadow-sm text-brand">
-                                        ${event.price}
-                                    </div>
-                                </div>
-                                <div className="p-[30px]">
-                                    <p className="text-brand font-medium mb-2 uppercase tracking-wider text-sm">
-                                        {new Date(event.date).toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}
-                                    </p>
-                                    <h3 className="text-[24px] font-bold text-dark mb-3 line-clamp-2 leading-tight group-hover:text-brand transition-colors">{event.title}</h3>
-                                    <div className="flex items-center text-grayText text-sm mb-6">
-                                        <MapPin className="w-4 h-4 mr-2 text-brand" /> {event.location}
-                                    </div>
-                                    <div className="flex flex-wrap gap-2">
-                                        {event.tags.slice(0, 3).map(tag => (
-                                            <span key={tag} className="text-xs bg-brand/5 text-brand px-3 py-1 rounded-full font-medium">{tag}</span>
-                                        ))}
-                                    </div>
-                                </div>
-                            </Link>
-                        ))
+                        groupBySeries(listedEvents).map(listing => {
+                            if ('event' in listing) return <EventCard key={listing.event.id} event={listing.event} settings={settings} />;
+                            // A series is listed once, as its next date
+                            const upcoming = listing.occurrences.filter(e => eventEnd(e, settings) > new Date());
+                            if (upcoming.length === 0) return null;
+                            return <EventCard key={listing.seriesId} event={upcoming[0]} settings={settings} moreDates={upcoming.length - 1} />;
+                        })
                     )}
                 </div>
             </div>
@@ -73,43 +89,380 @@ export const PublicView: React.FC<PublicViewProps> = ({ events, detailMode = fal
     );
 };
 
-const EventDetailPage: React.FC<{ event: Event, settings: AppSettings }> = ({ event, settings }) => {
-    const [bookingState, setBookingState] = useState<'idle' | 'checkout' | 'redirecting' | 'processing' | 'success'>('idle');
+// moreDates: further upcoming occurrences when the card stands for a series
+const EventCard: React.FC<{ event: Event, settings: AppSettings, moreDates?: number }> = ({ event, settings, moreDates }) => (
+    <Link to={`/public/${event.id}`} className="group relative bg-white/90 backdrop-blur-sm rounded-[20px] overflow-hidden shadow-card hover:shadow-hover hover:-translate-y-2 transition-all duration-500 border border-white/50">
+        <div className="h-64 overflow-hidden relative">
+            <img src={event.imageUrl} alt={event.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-700" />
+            <div className="absolute inset-0 bg-brand/20 opacity-0 group-hover:opacity-100 transition-opacity duration-500"></div>
+        
+            <div className="absolute top-4 right-4 bg-white/95 backdrop-blur px-4 py-1.5 rounded-full text-sm font-bold shadow-sm text-brand">
+                {hasTicketTiers(event) && 'from '}{formatPrice(lowestPrice(event), settings.paymentConfig.currency)}
+            </div>
+        </div>
+        <div className="p-[30px]">
+            <p className="text-brand font-medium mb-2 uppercase tracking-wider text-sm">
+                {formatEventDate(event, settings, { month: 'long', day: 'numeric' })}
+                {moreDates !== undefined && moreDates > 0 && <span className="normal-case tracking-normal text-grayText font-normal"> + {moreDates} more {moreDates === 1 ? 'date' : 'dates'}</span>}
+            </p>
+            {event.recurrence && (
+                <p className="flex items-center gap-2 text-sm text-grayText mb-2"><Repeat className="w-4 h-4 text-brand" /> {describeRecurrence(event.recurrence)}</p>
+            )}
+            <h3 className="text-[24px] font-bold text-dark mb-3 line-clamp-2 leading-tight group-hover:text-brand transition-colors">{event.title}</h3>
+            <div className="flex items-center text-grayText text-sm mb-6">
+                <MapPin className="w-4 h-4 mr-2 text-brand" /> {event.room ? `${event.room}, ${event.location}` : event.location}
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {event.tags.slice(0, 3).map(tag => (
+                    <span key={tag} className="text-xs bg-brand/5 text-brand px-3 py-1 rounded-full font-medium">{tag}</span>
+                ))}
+            </div>
+        </div>
+    </Link>
+);
+
+// The agenda as day tabs, with a column per track when sessions run in parallel. Ticket holders
+// can sign up for sessions to build their own schedule; the ticket code arrives as ?ticket=<code>
+// from the ticket page, or can be typed in.
+const EventSchedule: React.FC<{ event: Event, settings: AppSettings, speakers: Speaker[] }> = ({ event, settings, speakers }) => {
+    const [day, setDay] = useState(1);
+    const dayCount = agendaDayCount(event);
+    const tracks = agendaTracks(event);
+
+    const [sessions, setSessions] = useState<SessionAvailability[] | null>(null);
+    const [ticketCode, setTicketCode] = useState('');
+    const [schedule, setSchedule] = useState<TicketSchedule | null>(null);
+    const [onlyMine, setOnlyMine] = useState(false);
+    const [busySessionId, setBusySessionId] = useState<string | null>(null);
+
+    React.useEffect(() => {
+        PublishService.getSessionAvailability(event.id)
+            .then(setSessions)
+            .catch(() => setSessions(null)); // Unpublished (local preview): no sign-ups
+
+        const code = new URLSearchParams(window.location.search).get('ticket');
+        if (code) loadSchedule(code, false);
+    }, [event.id]);
+
+    const loadSchedule = async (code: string, reportErrors = true) => {
+        try {
+            const data = await PublishService.getTicketSchedule(code.trim());
+            if (data.eventId !== event.id) throw new Error("That ticket is for a different event.");
+            setSchedule(data);
+            setSessions(data.sessions);
+            setTicketCode(code.trim());
+        } catch (e) {
+            if (reportErrors) alert(e instanceof Error && e.message ? e.message : "Ticket not found.");
+        }
+    };
+
+    const handleTicketSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (ticketCode.trim()) loadSchedule(ticketCode);
+    };
+
+    const handleToggleSession = async (sessionId: string) => {
+        if (!schedule) return;
+        setBusySessionId(sessionId);
+        try {
+            const data = schedule.sessionIds.includes(sessionId)
+                ? await PublishService.leaveSession(ticketCode, sessionId)
+                : await PublishService.joinSession(ticketCode, sessionId);
+            setSchedule(data);
+            setSessions(data.sessions);
+        } catch (e) {
+            alert(e instanceof Error && e.message ? e.message : "Could not update your schedule.");
+        } finally {
+            setBusySessionId(null);
+        }
+    };
+
+    const dayItems = itemsForDay(event.agenda, Math.min(day, dayCount));
+    const items = onlyMine && schedule ? dayItems.filter(item => item.id && schedule.sessionIds.includes(item.id)) : dayItems;
+    const canSignUp = !!sessions && sessions.length > 0;
+
+    const session = (item: AgendaItem, i: number, showTrack: boolean) => {
+        const seats = item.id ? sessions?.find(s => s.id === item.id) : undefined;
+        const isMine = !!item.id && !!schedule?.sessionIds.includes(item.id);
+        return (
+            <div key={i} className={`flex gap-6 p-6 rounded-[20px] bg-white shadow-soft hover:shadow-hover transition-all border group ${isMine ? 'border-brand' : 'border-brand/5'}`}>
+                <div className="w-28 flex-shrink-0 font-bold text-right text-brand text-lg pt-1">{timeRange(item)}</div>
+                <div className="flex-1 border-l-2 border-brand/10 pl-6 group-hover:border-brand transition-colors">
+                    <h4 className="font-bold text-dark text-xl mb-2">{item.title}</h4>
+                    {findSpeakers(item.speakerIds, speakers).length > 0 && (
+                        <p className="text-sm text-grayText mb-2">
+                            with {findSpeakers(item.speakerIds, speakers).map((speaker, j) => (
+                                <React.Fragment key={speaker.id}>{j > 0 && ', '}<Link to={`/speaker/${speaker.id}`} className="font-semibold text-brand hover:underline">{speaker.name}</Link></React.Fragment>
+                            ))}
+                        </p>
+                    )}
+                    {(item.room || (showTrack && item.track) || seats?.remaining !== undefined) && (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                            {showTrack && item.track && <span className="px-3 py-1 rounded-pill bg-brand/10 text-brand text-xs font-bold">{item.track}</span>}
+                            {item.room && <span className="px-3 py-1 rounded-pill bg-gray-100 text-grayText text-xs font-bold flex items-center gap-1"><MapPin className="w-3 h-3" /> {item.room}</span>}
+                            {seats?.remaining !== undefined && (
+                                <span className={`px-3 py-1 rounded-pill text-xs font-bold ${seats.full ? 'bg-red-50 text-red-600' : 'bg-emerald-50 text-emerald-700'}`}>
+                                    {seats.full ? 'Full' : `${seats.remaining} seat${seats.remaining === 1 ? '' : 's'} left`}
+                                </span>
+                            )}
+                        </div>
+                    )}
+                    <p className="text-grayText">{item.description}</p>
+                    {schedule && item.id && seats && (
+                        <button
+                            onClick={() => handleToggleSession(item.id!)}
+                            disabled={busySessionId === item.id || (!isMine && seats.full)}
+                            className={`mt-4 px-4 py-2 rounded-pill text-sm font-bold flex items-center gap-2 transition-colors disabled:opacity-50 ${isMine ? 'bg-brand text-white hover:bg-brand/90' : 'bg-brand/10 text-brand hover:bg-brand/20'}`}
+                        >
+                            {busySessionId === item.id ? <Loader2 className="w-4 h-4 animate-spin" /> : isMine ? <CheckCircle className="w-4 h-4" /> : <CalendarPlus className="w-4 h-4" />}
+                            {isMine ? 'In my schedule' : seats.full ? 'Session full' : 'Add to my schedule'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <section>
+            <h2 className="text-[32px] font-bold mb-8 text-dark">Event Schedule</h2>
+            {canSignUp && (
+                schedule ? (
+                    <div className="flex flex-wrap items-center gap-4 mb-6 p-5 rounded-[20px] bg-brand/5 border border-brand/10">
+                        <span className="text-dark"><strong>{schedule.holderName}</strong>&apos;s schedule &middot; {schedule.sessionIds.length} session{schedule.sessionIds.length === 1 ? '' : 's'}</span>
+                        <label className="flex items-center gap-2 text-sm text-grayText cursor-pointer">
+                            <input type="checkbox" checked={onlyMine} onChange={e => setOnlyMine(e.target.checked)} className="accent-brand" /> Only my sessions
+                        </label>
+                        <button onClick={() => { setSchedule(null); setTicketCode(''); setOnlyMine(false); }} className="ml-auto text-sm text-brand hover:underline">Use another ticket</button>
+                    </div>
+                ) : (
+                    <form onSubmit={handleTicketSubmit} className="flex flex-wrap items-center gap-3 mb-6 p-5 rounded-[20px] bg-brand/5 border border-brand/10">
+                        <span className="text-sm text-grayText flex-1 min-w-[200px]">Booked? Enter the code from your ticket to pick your sessions.</span>
+                        <input value={ticketCode} onChange={e => setTicketCode(e.target.value)} placeholder="Ticket code" className="px-4 py-2 rounded-pill border border-gray-200 text-sm font-mono focus:border-brand outline-none" />
+                        <button type="submit" className="px-5 py-2 rounded-pill bg-brand text-white text-sm font-bold hover:bg-brand/90">Build my schedule</button>
+                    </form>
+                )
+            )}
+            {dayCount > 1 && (
+                <div className="flex flex-wrap gap-3 mb-6">
+                    {Array.from({ length: dayCount }, (_, i) => i + 1).map(n => (
+                        <button
+                            key={n}
+                            onClick={() => setDay(n)}
+                            className={`px-5 py-3 rounded-pill font-bold transition-colors ${n === day ? 'bg-brand text-white shadow-soft' : 'bg-white text-dark border border-brand/10 hover:border-brand'}`}
+                        >
+                            Day {n}{event.date && <span className="font-normal opacity-80"> · {dayDate(event, n, settings)}</span>}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {items.length === 0 ? (
+                <p className="text-grayText">{onlyMine ? "You haven't picked any sessions on this day." : 'No sessions scheduled for this day yet.'}</p>
+            ) : tracks.length > 1 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {tracks.map(track => (
+                        <div key={track} className="space-y-4">
+                            <h3 className="font-bold text-dark text-lg">{track}</h3>
+                            {items.filter(item => itemTrack(item, tracks) === track).map((item, i) => session(item, i, false))}
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {items.map((item, i) => session(item, i, true))}
+                </div>
+            )}
+        </section>
+    );
+};
+
+// Photo, name, role and the start of the bio, linking to the full profile
+const SpeakerCard: React.FC<{ speaker: Speaker }> = ({ speaker }) => (
+    <Link to={`/speaker/${speaker.id}`} className="flex gap-5 p-6 rounded-[20px] bg-white shadow-soft hover:shadow-hover transition-all border border-brand/5 group">
+        {speaker.photoUrl ? (
+            <img src={speaker.photoUrl} alt={speaker.name} className="w-20 h-20 rounded-full object-cover flex-shrink-0" />
+        ) : (
+            <div className="w-20 h-20 rounded-full bg-brand/10 text-brand text-xl font-bold flex items-center justify-center flex-shrink-0">{speakerInitials(speaker.name)}</div>
+        )}
+        <div className="min-w-0">
+            <h4 className="font-bold text-dark text-xl group-hover:text-brand transition-colors">{speaker.name}</h4>
+            {speaker.role && <p className="text-brand text-sm font-medium mb-2">{speaker.role}</p>}
+            <p className="text-grayText text-sm line-clamp-3">{speaker.bio}</p>
+        </div>
+    </Link>
+);
+
+const EventDetailPage: React.FC<{ event: Event, settings: AppSettings, otherDates: Event[], speakers: Speaker[], venue?: Venue }> = ({ event, settings, otherDates, speakers, venue }) => {
+    const [bookingState, setBookingState] = useState<'idle' | 'checkout' | 'redirecting' | 'processing' | 'pending' | 'success' | 'refunded'>('idle');
     const [showShare, setShowShare] = useState(false);
+    const [availability, setAvailability] = useState<Availability | null>(null);
+    const [offer, setOffer] = useState<{ token: string, expiresAt: string } | null>(null);
+    const [waitlistForm, setWaitlistForm] = useState({ name: '', email: '' });
+    const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+    const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false);
 
     // Check for success/cancel params in URL from Stripe redirect
     React.useEffect(() => {
         const params = new URLSearchParams(window.location.search);
         if (params.get('success')) setBookingState('success');
+        // Square/PayPal payments that came back after the last seats sold are refunded by the server
+        if (params.get('refunded')) setBookingState('refunded');
         // if (params.get('canceled')) setBookingState('idle');
-    }, []);
+
+        // Waitlisters arrive from their offer email with ?offer=<token>
+        const offerToken = params.get('offer');
+        if (offerToken) {
+            PublishService.getWaitlistOffer(offerToken)
+                .then(data => { if (data.eventId === event.id) setOffer({ token: offerToken, expiresAt: data.expiresAt }); })
+                .catch(e => console.warn("Waitlist offer unavailable:", e));
+        }
+    }, [event.id]);
+
+    const refreshAvailability = () => {
+        PublishService.getAvailability(event.id)
+            .then(setAvailability)
+            .catch(() => setAvailability(null)); // Unpublished (local preview): fall back to the event's own numbers
+    };
+
+    React.useEffect(refreshAvailability, [event.id]);
+
+    const spotsLeft = availability ? availability.remaining : Math.max(0, event.capacity - event.bookings);
+    const isSoldOut = spotsLeft === 0;
+
+    // Ticket tiers: default to the first one that can actually be bought
+    const tiers = event.ticketTypes || [];
+    const tierAvailability = (tierId: string) => availability?.ticketTypes.find(t => t.id === tierId);
+    const canBuyTier = (tierId: string) => {
+        const tier = tiers.find(t => t.id === tierId);
+        return !!tier && isTierOnSale(tier) && !tierAvailability(tierId)?.soldOut;
+    };
+    const [selectedTierId, setSelectedTierId] = useState<string | null>(null);
+    const selectedTier = tiers.find(t => t.id === selectedTierId) || tiers.find(t => canBuyTier(t.id));
+    const displayPrice = selectedTier ? selectedTier.price : event.price;
+    const checkoutPriceId = hasTicketTiers(event) ? selectedTier?.stripePriceId : event.stripePriceId;
+    const isFree = displayPrice === 0;
+
+    // Group bookings: a waitlist offer brings its own held seat on top of what's left
+    const [quantity, setQuantity] = useState(1);
+    const [attendees, setAttendees] = useState<string[]>([]);
+    const selectedTierRemaining = selectedTier ? tierAvailability(selectedTier.id)?.remaining : undefined;
+    const maxQuantity = Math.max(1, Math.min(
+        MAX_GROUP_SIZE,
+        spotsLeft + (offer ? 1 : 0),
+        selectedTierRemaining !== undefined ? selectedTierRemaining + (offer ? 1 : 0) : MAX_GROUP_SIZE
+    ));
+    const ticketCount = Math.min(quantity, maxQuantity);
+
+    // Promo codes are checked up front so the visitor sees the discount; checkout re-validates
+    const [promoInput, setPromoInput] = useState('');
+    const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+    const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+    const subtotal = roundAmount(displayPrice * ticketCount, settings.paymentConfig.currency);
+    const discount = appliedPromo ? promoDiscount(appliedPromo, subtotal, settings.paymentConfig.currency) : 0;
+
+    const bookingOptions = {
+        ticketTypeId: selectedTier?.id,
+        offerToken: offer?.token,
+        quantity: ticketCount,
+        attendees: attendees.slice(0, ticketCount),
+        promoCode: appliedPromo?.code
+    };
+
+    const handleApplyPromo = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!promoInput.trim()) return;
+        setIsCheckingPromo(true);
+        try {
+            setAppliedPromo(await PublishService.checkPromoCode(event.id, promoInput));
+            setPromoInput('');
+        } catch (err) {
+            alert(err instanceof Error && err.message ? err.message : "Could not apply the promo code.");
+        } finally {
+            setIsCheckingPromo(false);
+        }
+    };
+
+    const handleAttendeeChange = (index: number, name: string) => {
+        setAttendees(Array.from({ length: ticketCount }, (_, i) => i === index ? name : attendees[i] || ''));
+    };
 
     const handleStripeCheckout = async () => {
-        if (!event.stripePriceId) {
+        if (!checkoutPriceId) {
             alert("Booking not configured for this event (No Price ID).");
             return;
         }
         setBookingState('redirecting');
         try {
-            const url = await PublishService.createCheckoutSession(event.stripePriceId, event.id);
+            const url = await PublishService.createCheckoutSession(event.id, { priceId: checkoutPriceId, ...bookingOptions });
             window.location.href = url;
         } catch (e) {
             console.error(e);
-            alert("Failed to start checkout.");
+            alert(e instanceof Error && e.message ? e.message : "Failed to start checkout.");
             setBookingState('idle');
+            refreshAvailability();
         }
     };
     
+    const handleJoinWaitlist = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsJoiningWaitlist(true);
+        try {
+            const position = await PublishService.joinWaitlist(event.id, waitlistForm.name, waitlistForm.email);
+            setWaitlistPosition(position);
+        } catch (err) {
+            console.error(err);
+            alert(err instanceof Error && err.message ? err.message : "Failed to join the waitlist.");
+            refreshAvailability();
+        } finally {
+            setIsJoiningWaitlist(false);
+        }
+    };
+
+    // Without a Stripe price, bookings go through the provider chosen in Settings.
+    // Venmo and crypto transfers are settled by hand, so they share the manual flow.
+    const [customer, setCustomer] = useState({ name: '', email: '', phone: '' });
+    const altProvider = settings.paymentProvider === 'square' || settings.paymentProvider === 'paypal' ? settings.paymentProvider : 'manual';
+    const amountDue = formatPrice(roundAmount(subtotal - discount, settings.paymentConfig.currency), settings.paymentConfig.currency);
+    const paymentInstructions =
+        settings.paymentProvider === 'venmo' && settings.paymentConfig.email ? `Send ${amountDue} to ${settings.paymentConfig.email} on Venmo.` :
+        settings.paymentProvider === 'crypto' && settings.paymentConfig.walletAddress ? `Send ${amountDue} to wallet ${settings.paymentConfig.walletAddress}.` :
+        settings.paymentConfig.instructions || `Pay ${amountDue} at the door.`;
+
     const handleManualCheckout = () => {
         setBookingState('checkout');
     };
     
-    const confirmManualPayment = () => {
+    const handleProviderCheckout = async (e: React.FormEvent) => {
+        e.preventDefault();
         setBookingState('processing');
-        setTimeout(() => setBookingState('success'), 2000);
+        try {
+            if (isFree) {
+                await PublishService.rsvp(event.id, { ...bookingOptions, customer });
+                setBookingState('success');
+                refreshAvailability();
+                return;
+            }
+            const result = await PublishService.startPayment(altProvider, event.id, { ...bookingOptions, customer });
+            if (result.url) {
+                setBookingState('redirecting');
+                window.location.href = result.url;
+            } else if (result.status === 'confirmed') {
+                // Fully discounted, so there was nothing left to pay
+                setBookingState('success');
+                refreshAvailability();
+            } else {
+                setBookingState('pending');
+                refreshAvailability();
+            }
+        } catch (err) {
+            console.error(err);
+            alert(err instanceof Error && err.message ? err.message : "Failed to complete registration.");
+            setBookingState('checkout');
+            refreshAvailability();
+        }
     };
 
-    const calendarUrl = generateGoogleCalendarUrl(event);
+    const googleCalendarUrl = generateGoogleCalendarUrl(event, settings);
     const eventUrl = window.location.href;
 
     const shareLinks = [
@@ -139,9 +492,16 @@ const EventDetailPage: React.FC<{ event: Event, settings: AppSettings }> = ({ ev
                         </div>
                         <h1 className="text-[48px] md:text-[64px] font-bold text-white mb-6 leading-[1.1] max-w-4xl">{event.title}</h1>
                         <div className="flex flex-col md:flex-row md:items-center gap-8 text-white/90 text-lg font-medium">
-                            <div className="flex items-center gap-3"><Calendar className="w-6 h-6 text-accent-cyan" /> {new Date(event.date).toLocaleDateString(undefined, {weekday: 'long', month: 'long', day: 'numeric'})}</div>
-                            <div className="flex items-center gap-3"><Clock className="w-6 h-6 text-accent-cyan" /> {new Date(event.date).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</div>
-                            <div className="flex items-center gap-3"><MapPin className="w-6 h-6 text-accent-cyan" /> {event.location}</div>
+                            <div className="flex items-center gap-3"><Calendar className="w-6 h-6 text-accent-cyan" /> {formatEventDate(event, settings, {weekday: 'long', month: 'long', day: 'numeric'})}</div>
+                            <div className="flex items-center gap-3">
+                                <Clock className="w-6 h-6 text-accent-cyan" />
+                                <span>
+                                    {formatEventTimeRange(event, settings)}
+                                    {/* Visitors in another zone also get the time on their own clock */}
+                                    {isDifferentZone(event, settings) && <span className="block text-sm text-white/70">{formatEventTimeRange(event, settings, browserTimezone())} your time</span>}
+                                </span>
+                            </div>
+                            <div className="flex items-center gap-3"><MapPin className="w-6 h-6 text-accent-cyan" /> {event.room ? `${event.room}, ${event.location}` : event.location}</div>
                         </div>
                     </div>
                 </div>
@@ -154,18 +514,55 @@ const EventDetailPage: React.FC<{ event: Event, settings: AppSettings }> = ({ ev
                         <p className="text-[18px] leading-relaxed whitespace-pre-wrap">{event.description}</p>
                     </section>
 
-                    {event.agenda.length > 0 && (
+                    {findSpeakers(eventSpeakerIds(event), speakers).length > 0 && (
                         <section>
-                            <h2 className="text-[32px] font-bold mb-8 text-dark">Event Schedule</h2>
-                            <div className="space-y-4">
-                                {event.agenda.map((item, i) => (
-                                    <div key={i} className="flex gap-6 p-6 rounded-[20px] bg-white shadow-soft hover:shadow-hover transition-all border border-brand/5 group">
-                                        <div className="w-24 flex-shrink-0 font-bold text-right text-brand text-lg pt-1">{item.time}</div>
-                                        <div className="border-l-2 border-brand/10 pl-6 group-hover:border-brand transition-colors">
-                                            <h4 className="font-bold text-dark text-xl mb-2">{item.title}</h4>
-                                            <p className="text-grayText">{item.description}</p>
-                                        </div>
+                            <h2 className="text-[32px] font-bold mb-8 text-dark">Your Facilitators</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {findSpeakers(eventSpeakerIds(event), speakers).map(speaker => <SpeakerCard key={speaker.id} speaker={speaker} />)}
+                            </div>
+                        </section>
+                    )}
+
+                    {event.agenda.length > 0 && <EventSchedule event={event} settings={settings} speakers={speakers} />}
+
+                    {venue && (
+                        <section>
+                            <h2 className="text-[32px] font-bold mb-8 text-dark">Getting There</h2>
+                            <div className="p-8 rounded-[20px] bg-white shadow-soft border border-brand/5 space-y-6">
+                                <div>
+                                    <h4 className="font-bold text-dark text-xl">{venue.name}{event.room && <span className="font-normal text-grayText"> &middot; {event.room}</span>}</h4>
+                                    {venue.address && (
+                                        <a href={mapUrl(venue)} target="_blank" rel="noopener noreferrer" className="text-brand hover:underline flex items-center gap-2 mt-2">
+                                            <MapPin className="w-4 h-4" /> {venue.address}
+                                        </a>
+                                    )}
+                                </div>
+                                {venue.directions && (
+                                    <div>
+                                        <p className="font-bold text-dark flex items-center gap-2 mb-1"><Navigation className="w-4 h-4 text-brand" /> Directions</p>
+                                        <p className="text-grayText whitespace-pre-wrap">{venue.directions}</p>
                                     </div>
+                                )}
+                                {venue.accessibility && (
+                                    <div>
+                                        <p className="font-bold text-dark flex items-center gap-2 mb-1"><Accessibility className="w-4 h-4 text-brand" /> Accessibility</p>
+                                        <p className="text-grayText whitespace-pre-wrap">{venue.accessibility}</p>
+                                    </div>
+                                )}
+                            </div>
+                        </section>
+                    )}
+
+                    {otherDates.length > 0 && (
+                        <section>
+                            <h2 className="text-[32px] font-bold mb-8 text-dark flex items-center gap-3"><Repeat className="w-7 h-7 text-brand" /> More Dates</h2>
+                            {event.recurrence && <p className="text-grayText mb-4">{describeRecurrence(event.recurrence)}</p>}
+                            <div className="flex flex-wrap gap-3">
+                                {otherDates.map(other => (
+                                    <Link key={other.id} to={`/public/${other.id}`} className="px-5 py-3 rounded-pill bg-white shadow-soft border border-brand/10 hover:border-brand text-dark hover:text-brand transition-colors">
+                                        {formatEventDate(other, settings, { weekday: 'short', month: 'short', day: 'numeric' })}
+                                        <span className="text-grayText text-sm ml-2">{formatEventTimeRange(other, settings)}</span>
+                                    </Link>
                                 ))}
                             </div>
                         </section>
@@ -177,11 +574,13 @@ const EventDetailPage: React.FC<{ event: Event, settings: AppSettings }> = ({ ev
                         <div className="flex justify-between items-end mb-8 pb-8 border-b border-gray-100">
                             <div>
                                 <p className="text-grayText text-sm font-medium uppercase tracking-wider mb-1">Registration</p>
-                                <p className="text-sm text-brand font-medium">Limited Availability</p>
+                                <p className={`text-sm font-medium ${isSoldOut ? 'text-red-600' : 'text-brand'}`}>
+                                    {isSoldOut ? 'Sold out' : `${spotsLeft} ${spotsLeft === 1 ? 'spot' : 'spots'} left`}
+                                </p>
                             </div>
                             <div className="text-right">
-                                <span className="text-[40px] font-bold text-brand leading-none">${event.price}</span>
-                                <span className="text-grayText text-sm block">per person</span>
+                                <span className="text-[40px] font-bold text-brand leading-none">{isFree ? 'Free' : formatPrice(displayPrice, settings.paymentConfig.currency)}</span>
+                                {!isFree && <span className="text-grayText text-sm block">per person</span>}
                             </div>
                         </div>
                         
@@ -191,37 +590,230 @@ const EventDetailPage: React.FC<{ event: Event, settings: AppSettings }> = ({ ev
                                 <h3 className="font-bold text-xl mb-2">You're Booked!</h3>
                                 <p className="text-emerald-700">A confirmation has been sent to your email.</p>
                             </div>
-                        ) : bookingState === 'checkout' ? (
-                             <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                        ) : bookingState === 'refunded' ? (
+                            <div className="bg-red-50 text-red-800 p-6 rounded-[20px] flex flex-col items-center text-center animate-in fade-in zoom-in duration-300 border border-red-100">
+                                <X className="w-16 h-16 mb-4 text-red-500" />
+                                <h3 className="font-bold text-xl mb-2">Sold Out</h3>
+                                <p className="text-red-700">The last spots went while you were paying. Your payment has been refunded in full.</p>
+                            </div>
+                        ) : bookingState === 'pending' ? (
+                            <div className="bg-amber-50 text-amber-800 p-6 rounded-[20px] flex flex-col items-center text-center animate-in fade-in zoom-in duration-300 border border-amber-100">
+                                <CheckCircle className="w-16 h-16 mb-4 text-amber-600" />
+                                <h3 className="font-bold text-xl mb-2">Spot Reserved</h3>
+                                <p className="text-amber-700 mb-2">{paymentInstructions}</p>
+                                <p className="text-amber-700 text-sm">You'll get a confirmation email once your payment is received.</p>
+                            </div>
+                        ) : bookingState === 'checkout' || bookingState === 'processing' ? (
+                             <form onSubmit={handleProviderCheckout} className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
                                 <div className="flex justify-between items-center pb-2 border-b border-gray-100">
-                                    <h3 className="font-bold text-dark text-lg">Complete Booking</h3>
-                                    <button onClick={() => setBookingState('idle')}><X className="w-5 h-5 text-gray-400 hover:text-dark transition" /></button>
+                                    <h3 className="font-bold text-dark text-lg">{isFree ? 'RSVP' : 'Complete Booking'}</h3>
+                                    <button type="button" onClick={() => setBookingState('idle')}><X className="w-5 h-5 text-gray-400 hover:text-dark transition" /></button>
                                 </div>
-                                <button onClick={confirmManualPayment} className="w-full bg-brand text-white py-3 rounded-pill font-medium hover:bg-brand-900 transition shadow-lg shadow-brand/20">Confirm Registration</button>
-                             </div>
+                                <input
+                                    required
+                                    placeholder="Your name"
+                                    value={customer.name}
+                                    onChange={e => setCustomer({...customer, name: e.target.value})}
+                                    className="w-full bg-white border border-gray-300 rounded-lg px-4 py-3 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                />
+                                <input
+                                    required
+                                    type="email"
+                                    placeholder="Email address"
+                                    value={customer.email}
+                                    onChange={e => setCustomer({...customer, email: e.target.value})}
+                                    className="w-full bg-white border border-gray-300 rounded-lg px-4 py-3 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                />
+                                <input
+                                    type="tel"
+                                    placeholder="Phone (optional)"
+                                    value={customer.phone}
+                                    onChange={e => setCustomer({...customer, phone: e.target.value})}
+                                    className="w-full bg-white border border-gray-300 rounded-lg px-4 py-3 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                />
+                                {altProvider === 'manual' && !isFree && <p className="text-sm text-grayText">{paymentInstructions}</p>}
+                                <button
+                                    type="submit"
+                                    disabled={bookingState === 'processing'}
+                                    className="w-full bg-brand text-white py-3 rounded-pill font-medium hover:bg-brand-900 transition shadow-lg shadow-brand/20 flex items-center justify-center gap-2 disabled:opacity-70 disabled:cursor-wait"
+                                >
+                                    {bookingState === 'processing' ? <Loader2 className="w-5 h-5 animate-spin"/> :
+                                     isFree ? 'Confirm RSVP' :
+                                     altProvider === 'square' ? 'Continue to Square' :
+                                     altProvider === 'paypal' ? 'Continue to PayPal' :
+                                     'Confirm Registration'}
+                                </button>
+                             </form>
+                        ) : waitlistPosition !== null ? (
+                            <div className="bg-brand/5 text-dark p-6 rounded-[20px] flex flex-col items-center text-center animate-in fade-in zoom-in duration-300 border border-brand/10">
+                                <ListOrdered className="w-12 h-12 mb-4 text-brand" />
+                                <h3 className="font-bold text-xl mb-2">You're on the Waitlist</h3>
+                                <p className="text-grayText">You're number {waitlistPosition} in line. We'll email you if a spot opens up.</p>
+                            </div>
+                        ) : isSoldOut && !offer ? (
+                            <form onSubmit={handleJoinWaitlist} className="space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                                <h3 className="font-bold text-dark text-lg">Join the Waitlist</h3>
+                                <p className="text-sm text-grayText">This event is full. Leave your details and we'll email you if a spot opens up.</p>
+                                <input
+                                    required
+                                    placeholder="Your name"
+                                    value={waitlistForm.name}
+                                    onChange={e => setWaitlistForm({...waitlistForm, name: e.target.value})}
+                                    className="w-full bg-white border border-gray-300 rounded-lg px-4 py-3 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                />
+                                <input
+                                    required
+                                    type="email"
+                                    placeholder="Email address"
+                                    value={waitlistForm.email}
+                                    onChange={e => setWaitlistForm({...waitlistForm, email: e.target.value})}
+                                    className="w-full bg-white border border-gray-300 rounded-lg px-4 py-3 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={isJoiningWaitlist}
+                                    className="w-full bg-brand hover:bg-brand-900 text-white py-4 rounded-pill font-medium text-lg shadow-lg shadow-brand/30 transition-all flex items-center justify-center gap-3 disabled:opacity-70 disabled:cursor-wait"
+                                >
+                                    {isJoiningWaitlist ? <Loader2 className="w-5 h-5 animate-spin"/> : <>Join Waitlist <ArrowRight className="w-5 h-5" /></>}
+                                </button>
+                            </form>
                         ) : (
-                            <button 
-                                onClick={event.stripePriceId ? handleStripeCheckout : handleManualCheckout}
-                                disabled={bookingState === 'redirecting'}
-                                className="w-full bg-brand hover:bg-brand-900 text-white py-4 rounded-pill font-medium text-lg shadow-lg shadow-brand/30 transition-all hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center gap-3 disabled:opacity-70 disabled:cursor-wait"
-                            >
-                                {bookingState === 'redirecting' ? <Loader2 className="w-5 h-5 animate-spin"/> : <>Book Your Spot <ArrowRight className="w-5 h-5" /></>}
-                            </button>
+                            <>
+                                {offer && (
+                                    <div className="bg-emerald-50 text-emerald-800 p-4 rounded-xl mb-4 text-sm border border-emerald-100">
+                                        A spot is being held for you until <strong>{new Date(offer.expiresAt).toLocaleString()}</strong>.
+                                    </div>
+                                )}
+                                {hasTicketTiers(event) && (
+                                    <div className="space-y-2 mb-4">
+                                        {tiers.map(tier => {
+                                            const tierInfo = tierAvailability(tier.id);
+                                            const now = new Date();
+                                            const note = tier.salesStart && new Date(tier.salesStart) > now ? `On sale ${new Date(tier.salesStart).toLocaleDateString()}`
+                                                : tier.salesEnd && new Date(tier.salesEnd) <= now ? 'Sale ended'
+                                                : tierInfo?.soldOut ? 'Sold out'
+                                                : tierInfo ? `${tierInfo.remaining} left` : null;
+                                            return (
+                                                <label
+                                                    key={tier.id}
+                                                    className={`flex items-center justify-between gap-3 p-3 rounded-xl border transition-colors ${
+                                                        !canBuyTier(tier.id) ? 'border-gray-100 opacity-50 cursor-not-allowed' :
+                                                        selectedTier?.id === tier.id ? 'border-brand bg-brand/5 cursor-pointer' : 'border-gray-200 hover:border-brand/30 cursor-pointer'
+                                                    }`}
+                                                >
+                                                    <span className="flex items-center gap-3">
+                                                        <input
+                                                            type="radio"
+                                                            name="ticketType"
+                                                            checked={selectedTier?.id === tier.id}
+                                                            disabled={!canBuyTier(tier.id)}
+                                                            onChange={() => setSelectedTierId(tier.id)}
+                                                            className="accent-brand"
+                                                        />
+                                                        <span>
+                                                            <span className="block font-medium text-dark">{tier.name}</span>
+                                                            {note && <span className="block text-xs text-grayText">{note}</span>}
+                                                        </span>
+                                                    </span>
+                                                    <span className="font-bold text-brand">{formatPrice(tier.price, settings.paymentConfig.currency)}</span>
+                                                </label>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                                <div className="flex items-center justify-between mb-4">
+                                    <label htmlFor="ticketQuantity" className="font-medium text-dark">Tickets</label>
+                                    <select
+                                        id="ticketQuantity"
+                                        value={ticketCount}
+                                        onChange={e => setQuantity(Number(e.target.value))}
+                                        className="bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                    >
+                                        {Array.from({ length: maxQuantity }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                                    </select>
+                                </div>
+                                {ticketCount > 1 && (
+                                    <div className="space-y-2 mb-4">
+                                        <p className="text-xs text-grayText">Attendee names (optional)</p>
+                                        {Array.from({ length: ticketCount }, (_, i) => (
+                                            <input
+                                                key={i}
+                                                placeholder={`Guest ${i + 1}`}
+                                                value={attendees[i] || ''}
+                                                onChange={e => handleAttendeeChange(i, e.target.value)}
+                                                className="w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                            />
+                                        ))}
+                                    </div>
+                                )}
+                                {!isFree && (
+                                    <div className="mb-4 space-y-2">
+                                        {appliedPromo ? (
+                                            <div className="flex justify-between items-center text-sm bg-emerald-50 text-emerald-800 px-3 py-2 rounded-lg border border-emerald-100">
+                                                <span><strong>{appliedPromo.code}</strong> applied</span>
+                                                <span className="flex items-center gap-2">
+                                                    -{formatPrice(discount, settings.paymentConfig.currency)}
+                                                    <button type="button" onClick={() => setAppliedPromo(null)} title="Remove code"><X className="w-4 h-4" /></button>
+                                                </span>
+                                            </div>
+                                        ) : (
+                                            <form onSubmit={handleApplyPromo} className="flex gap-2">
+                                                <input
+                                                    placeholder="Promo code"
+                                                    value={promoInput}
+                                                    onChange={e => setPromoInput(e.target.value)}
+                                                    className="flex-1 min-w-0 bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark uppercase focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                                />
+                                                <button
+                                                    type="submit"
+                                                    disabled={isCheckingPromo}
+                                                    className="px-4 py-2 rounded-lg border border-brand/30 text-brand font-medium hover:bg-brand/5 transition disabled:opacity-50"
+                                                >
+                                                    {isCheckingPromo ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Apply'}
+                                                </button>
+                                            </form>
+                                        )}
+                                        {(ticketCount > 1 || appliedPromo) && (
+                                            <p className="flex justify-between pt-2 text-dark">
+                                                <span>Total</span>
+                                                <span className="font-bold">{amountDue}</span>
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+                                <button 
+                                    onClick={checkoutPriceId && !isFree ? handleStripeCheckout : handleManualCheckout}
+                                    disabled={bookingState === 'redirecting' || (hasTicketTiers(event) && !selectedTier)}
+                                    className="w-full bg-brand hover:bg-brand-900 text-white py-4 rounded-pill font-medium text-lg shadow-lg shadow-brand/30 transition-all hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center gap-3 disabled:opacity-70 disabled:cursor-wait"
+                                >
+                                    {bookingState === 'redirecting' ? <Loader2 className="w-5 h-5 animate-spin"/> : <>{offer ? 'Claim Your Spot' : isFree ? 'RSVP Now' : 'Book Your Spot'} <ArrowRight className="w-5 h-5" /></>}
+                                </button>
+                            </>
                         )}
 
                         <div className="mt-8 space-y-4">
-                             <a 
-                                href={calendarUrl} 
-                                target="_blank" 
-                                rel="noopener noreferrer"
-                                className="w-full flex items-center justify-center gap-2 text-brand hover:text-white bg-brand/5 hover:bg-brand py-3 rounded-pill text-sm font-medium transition-colors border border-brand/10"
-                             >
-                                <CalendarPlus className="w-4 h-4" /> Add to Calendar
-                             </a>
+                            {/* The .ics file opens in Apple Calendar and Outlook; Google needs its own link */}
+                            <div className="grid grid-cols-2 gap-2">
+                                <a
+                                    href={PublishService.calendarUrl(event.id)}
+                                    download={`${event.id}.ics`}
+                                    className="flex items-center justify-center gap-2 text-brand hover:text-white bg-brand/5 hover:bg-brand py-3 rounded-pill text-sm font-medium transition-colors border border-brand/10"
+                                >
+                                    <Download className="w-4 h-4" /> Download .ics
+                                </a>
+                                <a
+                                    href={googleCalendarUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="flex items-center justify-center gap-2 text-brand hover:text-white bg-brand/5 hover:bg-brand py-3 rounded-pill text-sm font-medium transition-colors border border-brand/10"
+                                >
+                                    <CalendarPlus className="w-4 h-4" /> Google Calendar
+                                </a>
+                            </div>
 
                             <div className="bg-cream rounded-xl p-4 flex justify-between text-sm text-grayText mt-4">
                                 <span>Remaining Spots</span>
-                                <span className="font-bold text-brand">{event.capacity - event.bookings} of {event.capacity}</span>
+                                <span className="font-bold text-brand">{spotsLeft} of {availability ? availability.capacity : event.capacity}</span>
                             </div>
                         </div>
                         
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Event, SessionRoster } from '../types';
+import { BookingService } from '../services/bookingService';
+import { timeRange } from '../utils/agenda';
+import { ArrowLeft, CalendarCheck, MapPin, Loader2 } from 'lucide-react';
+
+interface SessionRostersProps {
+    events: Event[];
+}
+
+// Who signed up for each agenda session, for printing lists or checking numbers before the day
+export const SessionRosters: React.FC<SessionRostersProps> = ({ events }) => {
+    const { id } = useParams();
+    const event = events.find(e => e.id === id);
+    const [rosters, setRosters] = useState<SessionRoster[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!id) return;
+        BookingService.getSessionRosters(id)
+            .then(data => { setRosters(data); setError(null); })
+            .catch(e => {
+                console.error(e);
+                setError("Could not reach the server. Session rosters are only available for published events.");
+            })
+            .finally(() => setIsLoading(false));
+    }, [id]);
+
+    const multiDay = rosters.some(r => (r.session.day || 1) > 1);
+    const signUps = rosters.reduce((acc, r) => acc + r.attendees.length, 0);
+
+    return (
+        <div className="p-8 h-full overflow-y-auto bg-cream">
+            <header className="mb-8 border-b border-accent/20 pb-6">
+                <Link to="/" className="inline-flex items-center gap-2 text-sm text-grayText hover:text-brand mb-4 transition-colors">
+                    <ArrowLeft className="w-4 h-4" /> Back to Dashboard
+                </Link>
+                <h2 className="text-3xl font-bold text-brand mb-2 flex items-center gap-3">
+                    <CalendarCheck className="w-7 h-7" /> Session Rosters
+                </h2>
+                <p className="text-grayText">{event ? event.title : 'Unknown event'} &middot; {signUps} sign-up{signUps === 1 ? '' : 's'}</p>
+            </header>
+
+            {isLoading ? (
+                <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 text-brand animate-spin" /></div>
+            ) : error ? (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">{error}</div>
+            ) : rosters.length === 0 ? (
+                <div className="text-center py-20 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-xl bg-white/50">
+                    This event has no published sessions.
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {event && !event.sessionSignups && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+                            Session sign-ups are turned off for this event. Turn them on in the agenda editor and republish.
+                        </div>
+                    )}
+                    {rosters.map(({ session, attendees }) => (
+                        <div key={session.id} className="bg-white rounded-xl border border-accent/20 shadow-sm overflow-hidden">
+                            <div className="px-4 py-3 bg-gray-50 flex flex-wrap items-center gap-x-4 gap-y-1">
+                                <span className="font-mono text-sm text-brand">{multiDay && `Day ${session.day || 1} · `}{timeRange(session)}</span>
+                                <span className="font-bold text-dark">{session.title}</span>
+                                {session.track && <span className="text-xs text-grayText">{session.track}</span>}
+                                {session.room && <span className="text-xs text-grayText flex items-center gap-1"><MapPin className="w-3 h-3" /> {session.room}</span>}
+                                <span className={`ml-auto text-sm font-semibold ${session.capacity && attendees.length >= session.capacity ? 'text-red-600' : 'text-grayText'}`}>
+                                    {attendees.length}{session.capacity ? ` / ${session.capacity}` : ''}
+                                </span>
+                            </div>
+                            {attendees.length === 0 ? (
+                                <p className="px-4 py-3 text-sm text-gray-400 italic">Nobody has signed up yet.</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead className="text-left text-xs uppercase text-grayText border-b border-gray-100">
+                                        <tr>
+                                            <th className="px-4 py-2 w-12">#</th>
+                                            <th className="px-4 py-2">Name</th>
+                                            <th className="px-4 py-2">Booked by</th>
+                                            <th className="px-4 py-2">Signed up</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {attendees.map((attendee, i) => (
+                                            <tr key={`${attendee.bookingId}.${attendee.ticketNumber}`} className="hover:bg-gray-50/50">
+                                                <td className="px-4 py-2 text-gray-400">{i + 1}</td>
+                                                <td className="px-4 py-2 font-medium text-dark">{attendee.name}</td>
+                                                <td className="px-4 py-2 text-grayText">{attendee.customerEmail}</td>
+                                                <td className="px-4 py-2 text-grayText">{new Date(attendee.registeredAt).toLocaleString()}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,8 +1,11 @@
 
-import React, { useRef, useState } from 'react';
-import { Save, Palette, Globe, ShieldCheck, CreditCard, Download, Upload, AlertTriangle, FileJson, Code, Copy, Check, Trash2 } from 'lucide-react';
-import { AppSettings, PaymentProvider, Event } from '../types';
+import React, { useRef, useState, useEffect } from 'react';
+import { Save, Palette, Globe, ShieldCheck, CreditCard, Download, Upload, AlertTriangle, FileJson, Code, Copy, Check, Trash2, UserCog, Mail, RotateCcw, CalendarDays } from 'lucide-react';
+import { AppSettings, PaymentProvider, Event, EmailTemplate, EmailTemplateCatalog, EmailTemplateKey, EmailPreview } from '../types';
+import { BookingService } from '../services/bookingService';
+import { PublishService } from '../services/publishService';
 import { LocalDB } from '../services/localDb';
+import { COMMON_CURRENCIES, DEFAULT_CURRENCY, formatPrice } from '../utils/currency';
 
 interface SettingsProps {
     settings: AppSettings;
@@ -10,14 +13,64 @@ interface SettingsProps {
     events?: Event[];
 }
 
+// Variables holding ready-made HTML, which templates insert with triple braces
+const RAW_EMAIL_VARIABLES = ['tickets', 'refund_note', 'message'];
+
+const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const TIMEZONES = Intl.supportedValuesOf('timeZone');
+
 export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings, events }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [copied, setCopied] = useState(false);
+    const [feedCopied, setFeedCopied] = useState(false);
+    const [emailCatalog, setEmailCatalog] = useState<EmailTemplateCatalog | null>(null);
+    const [emailTemplateKey, setEmailTemplateKey] = useState<EmailTemplateKey>('confirmation');
+    const [emailPreview, setEmailPreview] = useState<EmailPreview | null>(null);
+
+    // Templates and previews are rendered by the server, so they match what actually gets sent
+    useEffect(() => {
+        BookingService.getEmailTemplates().then(setEmailCatalog).catch(e => console.warn("Email templates unavailable", e));
+    }, []);
+
+    useEffect(() => {
+        if (!emailCatalog) return;
+        const timer = setTimeout(() => {
+            BookingService.previewEmail(emailTemplateKey, settings).then(setEmailPreview).catch(e => console.warn("Email preview failed", e));
+        }, 400);
+        return () => clearTimeout(timer);
+    }, [emailCatalog, emailTemplateKey, settings]);
 
     const handleChange = (key: keyof AppSettings, value: any) => {
         onUpdateSettings({ ...settings, [key]: value });
     };
 
+    const handleEmailConfigChange = (key: 'fromName' | 'fromAddress' | 'replyTo', value: string) => {
+        onUpdateSettings({
+            ...settings,
+            emailConfig: { ...settings.emailConfig, [key]: value }
+        });
+    };
+
+    const builtInTemplate = emailCatalog?.templates.find(t => t.key === emailTemplateKey);
+    const editedTemplate: EmailTemplate | undefined = settings.emailConfig?.templates?.[emailTemplateKey] || builtInTemplate;
+
+    // Edits are stored as a full copy of the template; resetting drops the copy
+    const handleTemplateChange = (field: keyof EmailTemplate, value: string) => {
+        if (!editedTemplate) return;
+        onUpdateSettings({
+            ...settings,
+            emailConfig: {
+                ...settings.emailConfig,
+                templates: { ...settings.emailConfig?.templates, [emailTemplateKey]: { subject: editedTemplate.subject, body: editedTemplate.body, [field]: value } }
+            }
+        });
+    };
+
+    const handleTemplateReset = () => {
+        const { [emailTemplateKey]: _removed, ...templates } = settings.emailConfig?.templates || {};
+        onUpdateSettings({ ...settings, emailConfig: { ...settings.emailConfig, templates } });
+    };
+
     const handlePaymentConfigChange = (key: string, value: string) => {
         onUpdateSettings({
             ...settings,
@@ -96,6 +149,12 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
         setTimeout(() => setCopied(false), 2000);
     };
 
+    const copyFeedUrl = () => {
+        navigator.clipboard.writeText(PublishService.calendarFeedUrl());
+        setFeedCopied(true);
+        setTimeout(() => setFeedCopied(false), 2000);
+    };
+
     return (
         <div className="p-8 h-full overflow-y-auto bg-cream">
              <header className="mb-8 border-b border-accent/20 pb-6">
@@ -178,14 +237,42 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                     </div>
                 </section>
 
+                {/* Calendar */}
+                <section className="bg-white rounded-xl border border-accent/20 p-6 shadow-sm">
+                    <h3 className="text-xl font-semibold text-dark mb-4 flex items-center gap-2">
+                        <CalendarDays className="w-5 h-5 text-brand" /> Calendar
+                    </h3>
+                    <div className="mb-6">
+                        <label className="block text-sm font-semibold text-dark mb-1">Time Zone</label>
+                        <select
+                            value={settings.timezone || BROWSER_TIMEZONE}
+                            onChange={(e) => handleChange('timezone', e.target.value)}
+                            className="w-full max-w-sm bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                        >
+                            {TIMEZONES.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+                        </select>
+                        <p className="text-xs text-grayText mt-1">The default for new events, and for older events that don't set their own. Calendar files carry each event's zone, so attendees elsewhere see the right local time.</p>
+                    </div>
+                    <label className="block text-sm font-semibold text-dark mb-1">Subscription Feed</label>
+                    <p className="text-sm text-grayText mb-2">
+                        Every published event, for subscribing in Apple Calendar, Outlook or Google Calendar. Calendar apps check it for changes every hour or so.
+                    </p>
+                    <div className="flex gap-2">
+                        <input readOnly value={PublishService.calendarFeedUrl()} className="flex-1 bg-gray-50 border border-gray-300 rounded-lg px-4 py-2 text-sm font-mono text-grayText outline-none" />
+                        <button onClick={copyFeedUrl} className="px-3 bg-brand/5 hover:bg-brand/10 border border-brand/20 rounded-lg text-brand transition-colors" title="Copy to Clipboard">
+                            {feedCopied ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                    </div>
+                </section>
+
                 {/* Payment Integration */}
                 <section className="bg-white rounded-xl border border-accent/20 p-6 shadow-sm">
                     <h3 className="text-xl font-semibold text-dark mb-4 flex items-center gap-2">
                         <CreditCard className="w-5 h-5 text-brand" /> Payment Integration
                     </h3>
                     
-                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
-                        {['stripe', 'paypal', 'square', 'crypto', 'venmo'].map((provider) => (
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-6">
+                        {['stripe', 'paypal', 'square', 'crypto', 'venmo', 'manual'].map((provider) => (
                             <button
                                 key={provider}
                                 onClick={() => handleChange('paymentProvider', provider as PaymentProvider)}
@@ -195,11 +282,27 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                                     : 'border-gray-200 text-gray-400 hover:border-brand/30 hover:bg-white'
                                 }`}
                             >
-                                {provider.charAt(0).toUpperCase() + provider.slice(1)}
+                                {provider === 'manual' ? 'Pay at Door' : provider.charAt(0).toUpperCase() + provider.slice(1)}
                             </button>
                         ))}
                     </div>
 
+                    <div className="flex items-center gap-4 mb-6">
+                        <div>
+                            <label className="block text-sm font-semibold text-dark mb-1">Currency</label>
+                            <select
+                                value={(settings.paymentConfig.currency || DEFAULT_CURRENCY).toUpperCase()}
+                                onChange={(e) => handlePaymentConfigChange('currency', e.target.value)}
+                                className="bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                            >
+                                {COMMON_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+                            </select>
+                        </div>
+                        <p className="text-xs text-grayText flex-1 mt-5">
+                            Prices display as <strong>{formatPrice(1500, settings.paymentConfig.currency)}</strong> and are charged in this currency. Changing it creates new Stripe prices the next time you publish.
+                        </p>
+                    </div>
+
                     <div className="bg-gray-50 p-6 rounded-lg border border-gray-200">
                         {settings.paymentProvider === 'none' && <p className="text-sm text-gray-500">Select a provider above to configure.</p>}
                         
@@ -215,6 +318,9 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                                         placeholder={`pk_test_...`}
                                     />
                                 </div>
+                                {settings.paymentProvider === 'square' && (
+                                    <p className="text-xs text-grayText">Checkout uses the server's <code>SQUARE_ACCESS_TOKEN</code> and <code>SQUARE_LOCATION_ID</code> environment variables.</p>
+                                )}
                             </div>
                         )}
 
@@ -230,6 +336,11 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                                         placeholder="user@example.com"
                                     />
                                 </div>
+                                {settings.paymentProvider === 'paypal' ? (
+                                    <p className="text-xs text-grayText">Checkout uses the server's <code>PAYPAL_CLIENT_ID</code> and <code>PAYPAL_CLIENT_SECRET</code> environment variables.</p>
+                                ) : (
+                                    <p className="text-xs text-grayText">Guests are shown this account and their booking stays pending until you mark it paid.</p>
+                                )}
                             </div>
                         )}
 
@@ -247,9 +358,159 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                                 </div>
                             </div>
                         )}
+
+                        {settings.paymentProvider === 'manual' && (
+                            <div className="space-y-4">
+                                <div>
+                                    <label className="block text-sm font-semibold text-dark mb-1">Payment Instructions</label>
+                                    <textarea
+                                        rows={3}
+                                        value={settings.paymentConfig.instructions || ''}
+                                        onChange={(e) => handlePaymentConfigChange('instructions', e.target.value)}
+                                        className="w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                        placeholder="Pay by cash or card at the door."
+                                    />
+                                </div>
+                                <p className="text-xs text-grayText">Registrations are held as pending until you mark them paid from the Bookings screen.</p>
+                            </div>
+                        )}
+                    </div>
+                </section>
+
+                {/* Attendee Self-Service */}
+                <section className="bg-white rounded-xl border border-accent/20 p-6 shadow-sm">
+                    <h3 className="text-xl font-semibold text-dark mb-4 flex items-center gap-2">
+                        <UserCog className="w-5 h-5 text-brand" /> Attendee Self-Service
+                    </h3>
+                    <p className="text-sm text-grayText mb-4">
+                        Confirmation emails include a link where attendees can view their tickets, add the event to their calendar, pass a ticket to someone else, or cancel.
+                    </p>
+                    <div className="flex items-center gap-4">
+                        <div>
+                            <label className="block text-sm font-semibold text-dark mb-1">Refund Window (hours)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                value={settings.selfService?.refundWindowHours ?? 48}
+                                onChange={(e) => handleChange('selfService', { ...settings.selfService, refundWindowHours: Math.max(0, parseInt(e.target.value) || 0) })}
+                                className="w-32 bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                            />
+                        </div>
+                        <p className="text-xs text-grayText flex-1 mt-5">
+                            Paid Stripe bookings can be cancelled and refunded online until this long before the event. Free and unpaid bookings can be cancelled any time before it starts. Takes effect when you next publish.
+                        </p>
                     </div>
                 </section>
 
+                {/* Email Section */}
+                <section className="bg-white rounded-xl border border-accent/20 p-6 shadow-sm">
+                    <h3 className="text-xl font-semibold text-dark mb-4 flex items-center gap-2">
+                        <Mail className="w-5 h-5 text-brand" /> Emails
+                    </h3>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-2">
+                        <div>
+                            <label className="block text-sm font-semibold text-dark mb-1">Sender Name</label>
+                            <input
+                                type="text"
+                                value={settings.emailConfig?.fromName || ''}
+                                onChange={(e) => handleEmailConfigChange('fromName', e.target.value)}
+                                className="w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                placeholder="My Studio"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-dark mb-1">Sender Address</label>
+                            <input
+                                type="email"
+                                value={settings.emailConfig?.fromAddress || ''}
+                                onChange={(e) => handleEmailConfigChange('fromAddress', e.target.value)}
+                                className="w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                placeholder="bookings@mystudio.com"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-semibold text-dark mb-1">Reply-To</label>
+                            <input
+                                type="email"
+                                value={settings.emailConfig?.replyTo || ''}
+                                onChange={(e) => handleEmailConfigChange('replyTo', e.target.value)}
+                                className="w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                placeholder="hello@mystudio.com"
+                            />
+                        </div>
+                    </div>
+                    <p className="text-xs text-grayText mb-6">
+                        The sender address must be on a domain verified in Resend.
+                        {emailCatalog && !settings.emailConfig?.fromAddress && <> Until you set one, emails come from <code>{emailCatalog.defaultFrom}</code>.</>}
+                        {emailCatalog?.transport === 'file' && <> The server is writing emails to its outbox folder instead of sending them (no <code>RESEND_API_KEY</code>).</>}
+                        {' '}Changes take effect when you next publish.
+                    </p>
+
+                    {!emailCatalog ? (
+                        <p className="text-sm text-gray-500">Start the publishing server to edit email templates.</p>
+                    ) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div className="space-y-4">
+                                <div>
+                                    <label className="block text-sm font-semibold text-dark mb-1">Template</label>
+                                    <select
+                                        value={emailTemplateKey}
+                                        onChange={(e) => setEmailTemplateKey(e.target.value as EmailTemplateKey)}
+                                        className="w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                    >
+                                        {emailCatalog.templates.map(t => (
+                                            <option key={t.key} value={t.key}>{t.label}{settings.emailConfig?.templates?.[t.key] ? ' (edited)' : ''}</option>
+                                        ))}
+                                    </select>
+                                    {builtInTemplate && <p className="text-xs text-grayText mt-1">{builtInTemplate.description}</p>}
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-semibold text-dark mb-1">Subject</label>
+                                    <input
+                                        type="text"
+                                        value={editedTemplate?.subject || ''}
+                                        onChange={(e) => handleTemplateChange('subject', e.target.value)}
+                                        className="w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-semibold text-dark mb-1">Body (HTML)</label>
+                                    <textarea
+                                        rows={12}
+                                        value={editedTemplate?.body || ''}
+                                        onChange={(e) => handleTemplateChange('body', e.target.value)}
+                                        className="w-full bg-white border border-gray-300 rounded-lg px-4 py-2 text-dark font-mono text-xs focus:ring-2 focus:ring-brand focus:border-transparent outline-none"
+                                    />
+                                </div>
+                                {builtInTemplate && (
+                                    <p className="text-xs text-grayText">
+                                        Variables: {builtInTemplate.variables.map(v => <code key={v} className="mr-1">{RAW_EMAIL_VARIABLES.includes(v) ? `{{{${v}}}}` : `{{${v}}}`}</code>)}
+                                    </p>
+                                )}
+                                {settings.emailConfig?.templates?.[emailTemplateKey] && (
+                                    <button onClick={handleTemplateReset} className="flex items-center gap-2 text-sm text-grayText hover:text-brand transition">
+                                        <RotateCcw className="w-4 h-4" /> Reset to default
+                                    </button>
+                                )}
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-semibold text-dark mb-1">Preview</label>
+                                {emailPreview && (
+                                    <div className="border border-gray-200 rounded-lg overflow-hidden">
+                                        <div className="bg-gray-50 px-4 py-2 text-xs text-grayText border-b border-gray-200 space-y-0.5">
+                                            <p><strong>From:</strong> {emailPreview.from}</p>
+                                            <p><strong>Subject:</strong> {emailPreview.subject}</p>
+                                        </div>
+                                        <iframe title="Email preview" srcDoc={emailPreview.html} sandbox="" className="w-full h-[480px] bg-white" />
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </section>
+
                 {/* Data Management Section */}
                 <section className="bg-white rounded-xl border border-accent/20 p-6 shadow-sm">
                     <h3 className="text-xl font-semibold text-dark mb-4 flex items-center gap-2">
@@ -0,0 +1,87 @@
+import React from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { AppSettings, Event, Speaker } from '../types';
+import { eventEnd, formatEventDate, formatEventTimeRange } from '../utils/datetime';
+import { speakerEvents, speakerInitials } from '../utils/speakers';
+import { Calendar, Clock, MapPin, ArrowRight, ExternalLink } from 'lucide-react';
+
+interface SpeakerProfileProps {
+    speakers: Speaker[];
+    events: Event[]; // Published events
+    settings: AppSettings;
+}
+
+// Public profile: bio, links and every upcoming event the speaker leads or teaches a session at
+export const SpeakerProfile: React.FC<SpeakerProfileProps> = ({ speakers, events, settings }) => {
+    const { id } = useParams();
+    const speaker = speakers.find(s => s.id === id);
+    if (!speaker) return <div className="min-h-screen flex items-center justify-center text-grayText bg-cream">Speaker not found</div>;
+
+    const upcoming = speakerEvents(speaker.id, events)
+        .filter(event => eventEnd(event, settings) > new Date())
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    // Sessions they lead, for events where they aren't billed for the whole thing
+    const sessionsAt = (event: Event) => event.speakerIds?.includes(speaker.id)
+        ? []
+        : event.agenda.filter(item => item.speakerIds?.includes(speaker.id)).map(item => item.title);
+
+    return (
+        <div className="min-h-screen font-sans text-dark" style={{ backgroundColor: settings.brandColor ? `${settings.brandColor}05` : '#FFFBF5' }}>
+            <div className="max-w-[1100px] mx-auto px-[30px] md:px-[66px] py-20">
+                <Link to="/public" className="text-sm text-grayText hover:text-brand">&larr; All events</Link>
+
+                <div className="flex flex-col md:flex-row gap-10 items-start mt-8 mb-16">
+                    {speaker.photoUrl ? (
+                        <img src={speaker.photoUrl} alt={speaker.name} className="w-48 h-48 rounded-full object-cover shadow-card flex-shrink-0" />
+                    ) : (
+                        <div className="w-48 h-48 rounded-full bg-brand/10 text-brand text-5xl font-bold flex items-center justify-center flex-shrink-0">{speakerInitials(speaker.name)}</div>
+                    )}
+                    <div>
+                        <h1 className="text-[40px] md:text-[52px] font-bold leading-tight text-brand">{speaker.name}</h1>
+                        {speaker.role && <p className="text-xl text-dark font-medium mt-1">{speaker.role}</p>}
+                        <p className="text-[18px] text-grayText leading-relaxed whitespace-pre-wrap mt-6">{speaker.bio}</p>
+                        {speaker.links.length > 0 && (
+                            <div className="flex flex-wrap gap-3 mt-6">
+                                {speaker.links.map((link, i) => (
+                                    <a key={i} href={link.url} target="_blank" rel="noopener noreferrer" className="px-4 py-2 rounded-pill bg-white shadow-soft border border-brand/10 hover:border-brand text-brand text-sm font-medium flex items-center gap-2">
+                                        <ExternalLink className="w-4 h-4" /> {link.label}
+                                    </a>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <h2 className="text-[32px] font-bold mb-8 text-dark">Upcoming Events</h2>
+                {upcoming.length === 0 ? (
+                    <div className="text-center py-16 bg-white rounded-[20px] shadow-container border border-gray-100">
+                        <p className="text-grayText text-lg">No upcoming events with {speaker.name} right now.</p>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {upcoming.map(event => (
+                            <Link key={event.id} to={`/public/${event.id}`} className="flex flex-col md:flex-row gap-6 p-6 rounded-[20px] bg-white shadow-soft hover:shadow-hover transition-all border border-brand/5 group">
+                                {event.imageUrl && <img src={event.imageUrl} alt={event.title} className="w-full md:w-48 h-32 rounded-[14px] object-cover flex-shrink-0" />}
+                                <div className="flex-1 min-w-0">
+                                    <h3 className="font-bold text-dark text-2xl mb-3 group-hover:text-brand transition-colors">{event.title}</h3>
+                                    <div className="flex flex-wrap gap-x-6 gap-y-2 text-grayText">
+                                        <span className="flex items-center gap-2"><Calendar className="w-4 h-4 text-brand" /> {formatEventDate(event, settings, { weekday: 'short', month: 'long', day: 'numeric', year: 'numeric' })}</span>
+                                        <span className="flex items-center gap-2"><Clock className="w-4 h-4 text-brand" /> {formatEventTimeRange(event, settings)}</span>
+                                        <span className="flex items-center gap-2"><MapPin className="w-4 h-4 text-brand" /> {event.location}</span>
+                                    </div>
+                                    {sessionsAt(event).length > 0 && <p className="text-sm text-grayText mt-3">Leading: {sessionsAt(event).join(', ')}</p>}
+                                </div>
+                                <ArrowRight className="w-6 h-6 text-brand self-center flex-shrink-0 hidden md:block" />
+                            </Link>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="py-8 text-center border-t border-brand/5 mt-12">
+                <p className="text-sm text-grayText">Powered by <span className="font-bold text-brand">EventForge</span></p>
+            </div>
+        </div>
+    );
+};
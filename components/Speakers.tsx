@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Asset, Event, Speaker } from '../types';
+import { speakerEvents, speakerInitials, speakerPhoto } from '../utils/speakers';
+import { Mic, Plus, Trash2, Edit2, X, Save, ExternalLink, Image as ImageIcon } from 'lucide-react';
+
+interface SpeakersProps {
+    speakers: Speaker[];
+    assets: Asset[];
+    events: Event[];
+    onSave: (speaker: Speaker) => void;
+    onDelete: (id: string) => void;
+}
+
+const emptySpeaker = (): Speaker => ({ id: crypto.randomUUID(), name: '', bio: '', links: [] });
+
+// The library of teachers and facilitators that events and agenda sessions link to
+export const Speakers: React.FC<SpeakersProps> = ({ speakers, assets, events, onSave, onDelete }) => {
+    const [editing, setEditing] = useState<Speaker | null>(null);
+    const imageAssets = assets.filter(a => a.type === 'image');
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing || !editing.name.trim()) return;
+        onSave({
+            ...editing,
+            name: editing.name.trim(),
+            role: editing.role?.trim() || undefined,
+            links: editing.links.filter(l => l.url.trim()).map(l => ({ label: l.label.trim() || 'Website', url: l.url.trim() }))
+        });
+        setEditing(null);
+    };
+
+    const handleDelete = (speaker: Speaker) => {
+        const linked = speakerEvents(speaker.id, events).length;
+        if (!window.confirm(`Delete ${speaker.name}?${linked ? ` They will be removed from ${linked} event${linked === 1 ? '' : 's'}.` : ''}`)) return;
+        onDelete(speaker.id);
+    };
+
+    // Picking another photo drops the uploaded copy, so the next publish uploads the new one
+    const handlePickPhoto = (assetId?: string) => {
+        setEditing(prev => prev && { ...prev, photoAssetId: assetId, photoUrl: undefined });
+    };
+
+    const updateLink = (index: number, changes: Partial<Speaker['links'][number]>) => {
+        setEditing(prev => prev && { ...prev, links: prev.links.map((l, i) => i === index ? { ...l, ...changes } : l) });
+    };
+
+    return (
+        <div className="p-8 h-full overflow-y-auto bg-cream">
+            <header className="mb-8 border-b border-accent/20 pb-6 flex justify-between items-end">
+                <div>
+                    <h2 className="text-3xl font-bold text-brand mb-2 flex items-center gap-3">
+                        <Mic className="w-7 h-7" /> Speakers
+                    </h2>
+                    <p className="text-grayText">Teachers and facilitators to link to events and sessions ({speakers.length})</p>
+                </div>
+                <button onClick={() => setEditing(emptySpeaker())} className="bg-brand hover:bg-brand-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 shadow-sm">
+                    <Plus className="w-4 h-4" /> Add Speaker
+                </button>
+            </header>
+
+            {editing && (
+                <form onSubmit={handleSave} className="bg-white rounded-xl border border-brand/30 shadow-sm p-6 mb-8 space-y-4">
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-lg font-medium text-dark">{speakers.some(s => s.id === editing.id) ? 'Edit Speaker' : 'New Speaker'}</h3>
+                        <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-dark"><X className="w-5 h-5" /></button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs uppercase font-semibold text-grayText mb-1">Name</label>
+                            <input required value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm" />
+                        </div>
+                        <div>
+                            <label className="block text-xs uppercase font-semibold text-grayText mb-1">Role</label>
+                            <input value={editing.role || ''} onChange={e => setEditing({ ...editing, role: e.target.value })} placeholder="e.g. Reiki Master Teacher" className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm" />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs uppercase font-semibold text-grayText mb-1">Bio</label>
+                        <textarea value={editing.bio} onChange={e => setEditing({ ...editing, bio: e.target.value })} rows={5} className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm" />
+                    </div>
+                    <div>
+                        <label className="block text-xs uppercase font-semibold text-grayText mb-1">Photo</label>
+                        {imageAssets.length === 0 ? (
+                            <p className="text-sm text-grayText">Upload a photo to the <Link to="/assets" className="text-brand hover:underline">Assets Library</Link> first.</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-2">
+                                <button type="button" onClick={() => handlePickPhoto(undefined)} className={`w-16 h-16 rounded-lg border-2 flex items-center justify-center text-gray-400 ${!editing.photoAssetId ? 'border-brand' : 'border-gray-200'}`} title="No photo">
+                                    <ImageIcon className="w-5 h-5" />
+                                </button>
+                                {imageAssets.map(asset => (
+                                    <button key={asset.id} type="button" onClick={() => handlePickPhoto(asset.id)} className={`w-16 h-16 rounded-lg border-2 overflow-hidden ${editing.photoAssetId === asset.id ? 'border-brand' : 'border-gray-200'}`} title={asset.name}>
+                                        <img src={asset.url} alt={asset.name} className="w-full h-full object-cover" />
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div>
+                        <label className="block text-xs uppercase font-semibold text-grayText mb-1">Links</label>
+                        <div className="space-y-2">
+                            {editing.links.map((link, i) => (
+                                <div key={i} className="flex gap-2">
+                                    <input value={link.label} onChange={e => updateLink(i, { label: e.target.value })} placeholder="Website" className="w-40 bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm" />
+                                    <input type="url" value={link.url} onChange={e => updateLink(i, { url: e.target.value })} placeholder="https://" className="flex-1 bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm" />
+                                    <button type="button" onClick={() => setEditing({ ...editing, links: editing.links.filter((_, j) => j !== i) })} className="px-2 text-gray-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+                                </div>
+                            ))}
+                            <button type="button" onClick={() => setEditing({ ...editing, links: [...editing.links, { label: '', url: '' }] })} className="text-sm text-brand hover:underline flex items-center gap-1">
+                                <Plus className="w-3 h-3" /> Add link
+                            </button>
+                        </div>
+                    </div>
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button type="button" onClick={() => setEditing(null)} className="px-4 py-2 rounded-lg text-sm text-grayText hover:bg-gray-100">Cancel</button>
+                        <button type="submit" className="bg-brand hover:bg-brand-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2">
+                            <Save className="w-4 h-4" /> Save Speaker
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {speakers.length === 0 && !editing ? (
+                <div className="text-center py-20 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-xl bg-white/50">
+                    No speakers yet. Add your teachers once and link them to any event.
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {[...speakers].sort((a, b) => a.name.localeCompare(b.name)).map(speaker => {
+                        const photo = speakerPhoto(speaker, assets);
+                        const eventCount = speakerEvents(speaker.id, events).length;
+                        return (
+                            <div key={speaker.id} className="bg-white rounded-xl border border-accent/20 shadow-sm p-5 flex gap-4">
+                                {photo ? (
+                                    <img src={photo} alt={speaker.name} className="w-16 h-16 rounded-full object-cover flex-shrink-0" />
+                                ) : (
+                                    <div className="w-16 h-16 rounded-full bg-brand/10 text-brand font-bold flex items-center justify-center flex-shrink-0">{speakerInitials(speaker.name)}</div>
+                                )}
+                                <div className="flex-1 min-w-0">
+                                    <h3 className="font-bold text-dark truncate">{speaker.name}</h3>
+                                    {speaker.role && <p className="text-sm text-brand truncate">{speaker.role}</p>}
+                                    <p className="text-xs text-grayText mt-1">{eventCount} event{eventCount === 1 ? '' : 's'}</p>
+                                    <div className="flex gap-3 mt-3 text-sm">
+                                        <button onClick={() => setEditing(speaker)} className="text-grayText hover:text-brand flex items-center gap-1"><Edit2 className="w-3.5 h-3.5" /> Edit</button>
+                                        <Link to={`/speaker/${speaker.id}`} target="_blank" className="text-grayText hover:text-brand flex items-center gap-1"><ExternalLink className="w-3.5 h-3.5" /> Profile</Link>
+                                        <button onClick={() => handleDelete(speaker)} className="text-red-400 hover:text-red-600 flex items-center gap-1"><Trash2 className="w-3.5 h-3.5" /> Delete</button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
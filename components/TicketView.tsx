@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { AppSettings, TicketDetails } from '../types';
+import { PublishService } from '../services/publishService';
+import { formatEventSchedule } from '../utils/datetime';
+import { Calendar, MapPin, Ticket, Loader2 } from 'lucide-react';
+
+interface TicketViewProps {
+    settings: AppSettings;
+}
+
+// Public "view my ticket" page, linked from the confirmation email
+export const TicketView: React.FC<TicketViewProps> = ({ settings }) => {
+    const { code } = useParams();
+    const [ticket, setTicket] = useState<TicketDetails | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!code) return;
+        PublishService.getTicket(code)
+            .then(setTicket)
+            .catch(e => setError(e instanceof Error && e.message ? e.message : "Ticket not found"));
+    }, [code]);
+
+    const isValid = ticket?.status === 'confirmed';
+
+    return (
+        <div className="min-h-screen font-sans text-dark flex items-center justify-center p-6" style={{ backgroundColor: settings.brandColor ? `${settings.brandColor}05` : '#FFFBF5' }}>
+            {error ? (
+                <div className="text-center text-grayText">
+                    <p className="mb-2 font-semibold text-dark">{error}</p>
+                    <p className="text-sm">Check the link in your confirmation email.</p>
+                </div>
+            ) : !ticket ? (
+                <Loader2 className="w-8 h-8 text-brand animate-spin" />
+            ) : (
+                <div className="bg-white rounded-[24px] shadow-card border border-gray-100 max-w-sm w-full overflow-hidden">
+                    {ticket.event?.imageUrl && <img src={ticket.event.imageUrl} alt={ticket.event.title} className="w-full h-40 object-cover" />}
+                    <div className="p-6 text-center">
+                        <span className="text-xs font-bold text-brand uppercase tracking-wider flex items-center justify-center gap-1">
+                            <Ticket className="w-4 h-4" /> Ticket {ticket.ticketNumber} of {ticket.ticketCount}
+                        </span>
+                        <h1 className="text-2xl font-bold text-dark mt-2 mb-1">{ticket.event?.title || 'Event'}</h1>
+                        <p className="text-grayText">{ticket.holderName}{ticket.ticketTypeName && <> &middot; {ticket.ticketTypeName}</>}</p>
+
+                        <div className="relative my-6 mx-auto w-56 h-56">
+                            <img src={PublishService.ticketQrUrl(ticket.code)} alt="Ticket QR code" className={`w-full h-full ${isValid ? '' : 'opacity-20'}`} />
+                            {!isValid && (
+                                <span className={`absolute inset-0 flex items-center justify-center font-bold uppercase tracking-wider ${ticket.status === 'cancelled' ? 'text-red-600' : 'text-amber-600'}`}>
+                                    {ticket.status === 'cancelled' ? 'Cancelled' : 'Awaiting payment'}
+                                </span>
+                            )}
+                        </div>
+
+                        {ticket.event && (
+                            <div className="text-sm text-grayText space-y-2 text-left border-t border-gray-100 pt-4">
+                                <p className="flex items-center gap-2"><Calendar className="w-4 h-4 text-brand" /> {formatEventSchedule(ticket.event)}</p>
+                                <p className="flex items-center gap-2"><MapPin className="w-4 h-4 text-brand" /> {ticket.event.location}</p>
+                            </div>
+                        )}
+                        <p className="text-xs text-gray-400 mt-6 font-mono break-all">{ticket.code}</p>
+                        <div className="flex justify-center gap-4 mt-4 text-sm">
+                            {/* The event page reads ?ticket= to open this ticket's personal schedule */}
+                            {ticket.event && <a href={`?ticket=${encodeURIComponent(ticket.code)}#/public/${ticket.event.id}`} className="text-brand hover:underline">{ticket.event.sessionSignups ? 'Choose sessions' : 'View event'}</a>}
+                            <Link to="/manage" className="text-brand hover:underline">Manage booking</Link>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Event, Venue } from '../types';
+import { mapUrl } from '../utils/venues';
+import { Building2, Plus, Trash2, Edit2, X, Save, MapPin, Users, Accessibility } from 'lucide-react';
+
+interface VenuesProps {
+    venues: Venue[];
+    events: Event[];
+    onSave: (venue: Venue) => void;
+    onDelete: (id: string) => void;
+}
+
+const emptyVenue = (): Venue => ({ id: crypto.randomUUID(), name: '', address: '', rooms: [] });
+
+// The library of places events are held, picked in the event editor instead of typing the address
+export const Venues: React.FC<VenuesProps> = ({ venues, events, onSave, onDelete }) => {
+    const [editing, setEditing] = useState<Venue | null>(null);
+    const [newRoom, setNewRoom] = useState('');
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing || !editing.name.trim()) return;
+        onSave({
+            ...editing,
+            name: editing.name.trim(),
+            address: editing.address.trim(),
+            accessibility: editing.accessibility?.trim() || undefined,
+            directions: editing.directions?.trim() || undefined
+        });
+        setEditing(null);
+    };
+
+    const handleDelete = (venue: Venue) => {
+        const linked = events.filter(e => e.venueId === venue.id).length;
+        if (!window.confirm(`Delete ${venue.name}?${linked ? ` ${linked} event${linked === 1 ? '' : 's'} will keep the address as plain text.` : ''}`)) return;
+        onDelete(venue.id);
+    };
+
+    const handleAddRoom = () => {
+        const room = newRoom.trim();
+        if (!editing || !room || editing.rooms.includes(room)) return;
+        setEditing({ ...editing, rooms: [...editing.rooms, room] });
+        setNewRoom('');
+    };
+
+    return (
+        <div className="p-8 h-full overflow-y-auto bg-cream">
+            <header className="mb-8 border-b border-accent/20 pb-6 flex justify-between items-end">
+                <div>
+                    <h2 className="text-3xl font-bold text-brand mb-2 flex items-center gap-3">
+                        <Building2 className="w-7 h-7" /> Venues
+                    </h2>
+                    <p className="text-grayText">Places you hold events, with their rooms and access details ({venues.length})</p>
+                </div>
+                <button onClick={() => { setEditing(emptyVenue()); setNewRoom(''); }} className="bg-brand hover:bg-brand-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 shadow-sm">
+                    <Plus className="w-4 h-4" /> Add Venue
+                </button>
+            </header>
+
+            {editing && (
+                <form onSubmit={handleSave} className="bg-white rounded-xl border border-brand/30 shadow-sm p-6 mb-8 space-y-4">
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-lg font-medium text-dark">{venues.some(v => v.id === editing.id) ? 'Edit Venue' : 'New Venue'}</h3>
+                        <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-dark"><X className="w-5 h-5" /></button>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="md:col-span-2">
+                            <label className="block text-xs uppercase font-semibold text-grayText mb-1">Name</label>
+                            <input required value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm" />
+                        </div>
+                        <div>
+                            <label className="block text-xs uppercase font-semibold text-grayText mb-1">Default Capacity</label>
+                            <input
+                                type="number"
+                                min={1}
+                                value={editing.defaultCapacity ?? ''}
+                                onChange={e => setEditing({ ...editing, defaultCapacity: e.target.value ? Math.max(1, parseInt(e.target.value)) : undefined })}
+                                className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs uppercase font-semibold text-grayText mb-1">Address</label>
+                        <input value={editing.address} onChange={e => setEditing({ ...editing, address: e.target.value })} placeholder="Street, city, postcode" className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm" />
+                    </div>
+                    <div>
+                        <label className="block text-xs uppercase font-semibold text-grayText mb-1">Rooms</label>
+                        <div className="flex flex-wrap gap-2 mb-2">
+                            {editing.rooms.map(room => (
+                                <span key={room} className="bg-gray-100 text-dark text-xs pl-2 pr-1 py-1 rounded border border-gray-200 flex items-center gap-1">
+                                    {room}
+                                    <button type="button" onClick={() => setEditing({ ...editing, rooms: editing.rooms.filter(r => r !== room) })} className="text-gray-400 hover:text-red-500"><X className="w-3 h-3" /></button>
+                                </span>
+                            ))}
+                            {editing.rooms.length === 0 && <span className="text-xs text-gray-400">No rooms; events book the whole venue.</span>}
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                value={newRoom}
+                                onChange={e => setNewRoom(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddRoom(); } }}
+                                placeholder="e.g. Studio A"
+                                className="flex-1 bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm"
+                            />
+                            <button type="button" onClick={handleAddRoom} className="px-3 py-2 rounded bg-gray-100 hover:bg-gray-200 text-dark border border-gray-200 text-sm flex items-center gap-1">
+                                <Plus className="w-4 h-4" /> Room
+                            </button>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs uppercase font-semibold text-grayText mb-1">Accessibility</label>
+                            <textarea value={editing.accessibility || ''} onChange={e => setEditing({ ...editing, accessibility: e.target.value })} rows={3} placeholder="Step-free entrance, accessible toilet, hearing loop..." className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm" />
+                        </div>
+                        <div>
+                            <label className="block text-xs uppercase font-semibold text-grayText mb-1">Directions</label>
+                            <textarea value={editing.directions || ''} onChange={e => setEditing({ ...editing, directions: e.target.value })} rows={3} placeholder="Nearest station, parking, which door to use..." className="w-full bg-white border border-gray-300 rounded px-3 py-2 text-dark text-sm" />
+                        </div>
+                    </div>
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button type="button" onClick={() => setEditing(null)} className="px-4 py-2 rounded-lg text-sm text-grayText hover:bg-gray-100">Cancel</button>
+                        <button type="submit" className="bg-brand hover:bg-brand-600 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2">
+                            <Save className="w-4 h-4" /> Save Venue
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {venues.length === 0 && !editing ? (
+                <div className="text-center py-20 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-xl bg-white/50">
+                    No venues yet. Add the places you use and pick them when creating events.
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {[...venues].sort((a, b) => a.name.localeCompare(b.name)).map(venue => {
+                        const eventCount = events.filter(e => e.venueId === venue.id).length;
+                        return (
+                            <div key={venue.id} className="bg-white rounded-xl border border-accent/20 shadow-sm p-5">
+                                <h3 className="font-bold text-dark">{venue.name}</h3>
+                                {venue.address && (
+                                    <a href={mapUrl(venue)} target="_blank" rel="noopener noreferrer" className="text-sm text-grayText hover:text-brand flex items-start gap-1 mt-1">
+                                        <MapPin className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" /> {venue.address}
+                                    </a>
+                                )}
+                                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-grayText mt-2">
+                                    {venue.defaultCapacity && <span className="flex items-center gap-1"><Users className="w-3 h-3" /> {venue.defaultCapacity}</span>}
+                                    {venue.accessibility && <span className="flex items-center gap-1"><Accessibility className="w-3 h-3" /> Access notes</span>}
+                                    <span>{eventCount} event{eventCount === 1 ? '' : 's'}</span>
+                                </div>
+                                {venue.rooms.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-3">
+                                        {venue.rooms.map(room => <span key={room} className="bg-gray-100 text-gray-600 px-2 py-0.5 rounded text-xs border border-gray-200">{room}</span>)}
+                                    </div>
+                                )}
+                                <div className="flex gap-3 mt-4 pt-3 border-t border-gray-100 text-sm">
+                                    <button onClick={() => { setEditing(venue); setNewRoom(''); }} className="text-grayText hover:text-brand flex items-center gap-1"><Edit2 className="w-3.5 h-3.5" /> Edit</button>
+                                    <button onClick={() => handleDelete(venue)} className="text-red-400 hover:text-red-600 flex items-center gap-1"><Trash2 className="w-3.5 h-3.5" /> Delete</button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
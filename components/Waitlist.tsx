@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Event, WaitlistEntry } from '../types';
+import { BookingService } from '../services/bookingService';
+import { ArrowLeft, ListOrdered, Trash2, Loader2 } from 'lucide-react';
+
+interface WaitlistProps {
+    events: Event[];
+}
+
+const STATUS_STYLES: Record<WaitlistEntry['status'], string> = {
+    waiting: 'bg-amber-100 text-amber-700',
+    offered: 'bg-blue-100 text-brand',
+    claimed: 'bg-emerald-100 text-emerald-700',
+    expired: 'bg-gray-100 text-gray-500',
+};
+
+export const Waitlist: React.FC<WaitlistProps> = ({ events }) => {
+    const { id } = useParams();
+    const event = events.find(e => e.id === id);
+    const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadWaitlist = async () => {
+        if (!id) return;
+        try {
+            setEntries(await BookingService.getWaitlist(id));
+            setError(null);
+        } catch (e) {
+            console.error(e);
+            setError("Could not reach the server. The waitlist is only available for published events.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => { loadWaitlist(); }, [id]);
+
+    const handleRemove = async (entry: WaitlistEntry) => {
+        if (!window.confirm(`Remove ${entry.name} from the waitlist?`)) return;
+        await BookingService.removeWaitlistEntry(entry.id);
+        await loadWaitlist();
+    };
+
+    const waitingCount = entries.filter(e => e.status === 'waiting').length;
+
+    return (
+        <div className="p-8 h-full overflow-y-auto bg-cream">
+            <header className="mb-8 border-b border-accent/20 pb-6">
+                <Link to="/" className="inline-flex items-center gap-2 text-sm text-grayText hover:text-brand mb-4 transition-colors">
+                    <ArrowLeft className="w-4 h-4" /> Back to Dashboard
+                </Link>
+                <h2 className="text-3xl font-bold text-brand mb-2 flex items-center gap-3">
+                    <ListOrdered className="w-7 h-7" /> Waitlist
+                </h2>
+                <p className="text-grayText">{event ? event.title : 'Unknown event'} &middot; {waitingCount} waiting</p>
+            </header>
+
+            {isLoading ? (
+                <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 text-brand animate-spin" /></div>
+            ) : error ? (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">{error}</div>
+            ) : entries.length === 0 ? (
+                <div className="text-center py-20 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-xl bg-white/50">
+                    Nobody is on the waitlist for this event.
+                </div>
+            ) : (
+                <div className="bg-white rounded-xl border border-accent/20 shadow-sm overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 text-left text-xs uppercase text-grayText">
+                            <tr>
+                                <th className="px-4 py-3 w-12">#</th>
+                                <th className="px-4 py-3">Name</th>
+                                <th className="px-4 py-3">Email</th>
+                                <th className="px-4 py-3">Joined</th>
+                                <th className="px-4 py-3">Status</th>
+                                <th className="px-4 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {entries.map((entry, i) => (
+                                <tr key={entry.id} className="hover:bg-gray-50/50">
+                                    <td className="px-4 py-3 text-gray-400">{i + 1}</td>
+                                    <td className="px-4 py-3 font-medium text-dark">{entry.name}</td>
+                                    <td className="px-4 py-3 text-grayText">{entry.email}</td>
+                                    <td className="px-4 py-3 text-grayText">{new Date(entry.createdAt).toLocaleString()}</td>
+                                    <td className="px-4 py-3">
+                                        <span className={`px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                                        {entry.status === 'offered' && entry.offerExpiresAt && (
+                                            <span className="block text-xs text-gray-400 mt-1">until {new Date(entry.offerExpiresAt).toLocaleString()}</span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 text-right">
+                                        <button onClick={() => handleRemove(entry)} className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors" title="Remove">
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { WebhookEvent, WebhookLog as WebhookLogData } from '../types';
+import { BookingService } from '../services/bookingService';
+import { Webhook, RefreshCw, ShieldCheck, ShieldAlert, Loader2 } from 'lucide-react';
+
+const STATUS_STYLES: Record<WebhookEvent['status'], string> = {
+    processing: 'bg-blue-100 text-brand',
+    processed: 'bg-emerald-100 text-emerald-700',
+    failed: 'bg-red-100 text-red-700',
+    ignored: 'bg-gray-100 text-gray-500',
+};
+
+export const WebhookLog: React.FC = () => {
+    const [log, setLog] = useState<WebhookLogData | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadLog = async () => {
+        setIsLoading(true);
+        try {
+            setLog(await BookingService.getWebhookLog());
+            setError(null);
+        } catch (e) {
+            console.error(e);
+            setError("Could not reach the server. Webhooks are received by the publishing server.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => { loadLog(); }, []);
+
+    const failedCount = log ? log.events.filter(e => e.status === 'failed').length : 0;
+
+    return (
+        <div className="p-8 h-full overflow-y-auto bg-cream">
+            <header className="mb-8 flex justify-between items-end border-b border-accent/20 pb-6">
+                <div>
+                    <h2 className="text-3xl font-bold text-brand mb-2 flex items-center gap-3">
+                        <Webhook className="w-7 h-7" /> Webhooks
+                    </h2>
+                    <p className="text-grayText">Recent Stripe deliveries &middot; {failedCount} failed</p>
+                </div>
+                <button onClick={loadLog} className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 bg-white text-sm text-grayText hover:text-brand hover:border-brand/30 transition">
+                    <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+                </button>
+            </header>
+
+            {log && (
+                log.signed ? (
+                    <div className="mb-6 flex items-center gap-2 text-sm text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg p-3">
+                        <ShieldCheck className="w-4 h-4" /> Signatures are verified with STRIPE_WEBHOOK_SECRET.
+                    </div>
+                ) : (
+                    <div className="mb-6 flex items-center gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                        <ShieldAlert className="w-4 h-4" />
+                        {log.strict
+                            ? 'STRIPE_WEBHOOK_SECRET is not set, so every webhook is being rejected.'
+                            : 'STRIPE_WEBHOOK_SECRET is not set. Unsigned webhooks are accepted because the server is not in production mode.'}
+                    </div>
+                )
+            )}
+
+            {isLoading && !log ? (
+                <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 text-brand animate-spin" /></div>
+            ) : error ? (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">{error}</div>
+            ) : !log || log.events.length === 0 ? (
+                <div className="text-center py-20 text-gray-400 italic border-2 border-dashed border-gray-200 rounded-xl bg-white/50">
+                    No webhooks received yet.
+                </div>
+            ) : (
+                <div className="bg-white rounded-xl border border-accent/20 shadow-sm overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 text-left text-xs uppercase text-grayText">
+                            <tr>
+                                <th className="px-4 py-3">Received</th>
+                                <th className="px-4 py-3">Type</th>
+                                <th className="px-4 py-3">Event ID</th>
+                                <th className="px-4 py-3">Attempts</th>
+                                <th className="px-4 py-3">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {log.events.map(event => (
+                                <tr key={event.id} className="hover:bg-gray-50/50 align-top">
+                                    <td className="px-4 py-3 text-grayText whitespace-nowrap">{new Date(event.receivedAt).toLocaleString()}</td>
+                                    <td className="px-4 py-3 font-medium text-dark">
+                                        {event.type}
+                                        {!event.livemode && <span className="ml-2 text-xs text-gray-400">test</span>}
+                                    </td>
+                                    <td className="px-4 py-3 font-mono text-xs text-grayText">{event.id}</td>
+                                    <td className="px-4 py-3 text-grayText">{event.attempts}</td>
+                                    <td className="px-4 py-3">
+                                        <span className={`px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wide ${STATUS_STYLES[event.status]}`}>{event.status}</span>
+                                        {event.error && <span className="block text-xs text-red-600 mt-1">{event.error}</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,43 @@
+// Stripe amounts are integers in the currency's smallest unit, which isn't always cents.
+// See https://docs.stripe.com/currencies#zero-decimal
+const ZERO_DECIMAL_CURRENCIES = ['bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf'];
+const THREE_DECIMAL_CURRENCIES = ['bhd', 'jod', 'kwd', 'omr', 'tnd'];
+
+export const DEFAULT_CURRENCY = 'usd';
+
+export const normalizeCurrency = (currency) => (currency || DEFAULT_CURRENCY).toLowerCase();
+
+const minorUnitFactor = (currency) => {
+    const code = normalizeCurrency(currency);
+    if (ZERO_DECIMAL_CURRENCIES.includes(code)) return 1;
+    if (THREE_DECIMAL_CURRENCIES.includes(code)) return 1000;
+    return 100;
+};
+
+export const toMinorUnits = (amount, currency) => {
+    const code = normalizeCurrency(currency);
+    const minor = Math.round(amount * minorUnitFactor(code));
+    // Stripe only accepts three-decimal amounts rounded to the nearest ten
+    return THREE_DECIMAL_CURRENCIES.includes(code) ? Math.round(minor / 10) * 10 : minor;
+};
+
+export const fromMinorUnits = (minor, currency) => minor / minorUnitFactor(currency);
+
+// Round a computed amount (e.g. a percentage discount) to what the currency can actually charge
+export const roundAmount = (amount, currency) => fromMinorUnits(toMinorUnits(amount, currency), currency);
+
+// Decimal string for APIs that take major units, e.g. PayPal's "20.00" or "1500" for JPY
+export const formatDecimalAmount = (amount, currency) => {
+    const digits = Math.log10(minorUnitFactor(currency));
+    return (toMinorUnits(amount, currency) / minorUnitFactor(currency)).toFixed(digits);
+};
+
+// Human-readable amount for emails, e.g. "$20.00"
+export const formatMoney = (amount, currency) => {
+    const code = normalizeCurrency(currency).toUpperCase();
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency: code }).format(amount);
+    } catch (e) {
+        return `${amount} ${code}`;
+    }
+};
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Server-side records (bookings etc.) live outside PUBLIC_DIR so they are never served statically.
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '../data');
+
+if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
+
+const fileFor = (name) => path.join(DATA_DIR, `${name}.json`);
+
+// A store that exists but won't parse is an error, never an empty collection: treating it as
+// empty would let the next write replace the ledger with nothing. The file is left as it is for repair.
+const readRecords = (name) => {
+    const file = fileFor(name);
+    if (!fs.existsSync(file)) return [];
+    let records;
+    try {
+        records = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+        console.error(`Failed to read ${name} store:`, e);
+        throw new Error(`The ${name} store at ${file} is unreadable`);
+    }
+    if (!Array.isArray(records)) throw new Error(`The ${name} store at ${file} is not a list of records`);
+    return records;
+};
+
+// Write to a temp file first so a crash mid-write never leaves a truncated store behind.
+const writeRecords = (name, records) => {
+    const file = fileFor(name);
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(records, null, 2));
+    fs.renameSync(tmp, file);
+};
+
+// A tiny JSON-file backed collection. Every call reads from disk, which keeps
+// things simple and is plenty fast for a single studio's booking volume.
+export const collection = (name) => ({
+    all: () => readRecords(name),
+
+    get: (id) => readRecords(name).find(r => r.id === id),
+
+    find: (predicate) => readRecords(name).filter(predicate),
+
+    findOne: (predicate) => readRecords(name).find(predicate),
+
+    insert: (record) => {
+        const records = readRecords(name);
+        records.push(record);
+        writeRecords(name, records);
+        return record;
+    },
+
+    update: (id, changes) => {
+        const records = readRecords(name);
+        const index = records.findIndex(r => r.id === id);
+        if (index < 0) return null;
+        records[index] = { ...records[index], ...changes };
+        writeRecords(name, records);
+        return records[index];
+    },
+
+    remove: (id) => {
+        const records = readRecords(name);
+        const remaining = records.filter(r => r.id !== id);
+        writeRecords(name, remaining);
+        return remaining.length !== records.length;
+    },
+
+    removeWhere: (predicate) => {
+        const records = readRecords(name);
+        const remaining = records.filter(r => !predicate(r));
+        if (remaining.length !== records.length) writeRecords(name, remaining);
+        return records.length - remaining.length;
+    }
+});
@@ -0,0 +1,253 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Resend } from 'resend';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Transactional email. Every message is one of the templates below: a subject and an HTML body
+// with {{variables}}, wrapped in a layout using the studio's brand color. Studios can override
+// any template from Settings (AppSettings.emailConfig.templates); the published settings win.
+//
+// Where mail goes is picked by EMAIL_TRANSPORT:
+//   resend  -> sent through Resend (the default when RESEND_API_KEY is set)
+//   file    -> written to EMAIL_OUTBOX_DIR (default <DATA_DIR>/outbox) as .html files, with any
+//              attachments alongside, for offline development (the default outside production
+//              when Resend isn't configured)
+//   none    -> dropped
+
+const DEFAULT_FROM = 'EventForge <bookings@thereikigoddesshealing.com>';
+
+// {{name}} is HTML-escaped; {{{name}}} is inserted as-is and is only used for blocks we build ourselves
+export const EMAIL_TEMPLATES = {
+    confirmation: {
+        label: 'Booking Confirmation',
+        description: 'Sent when a booking is paid, or right away for free events.',
+        variables: ['customer_name', 'event_title', 'event_date', 'event_location', 'event_link', 'calendar_link', 'manage_link', 'ticket_link', 'quantity', 'tickets'],
+        subject: 'Booking Confirmed: {{event_title}}',
+        body: `<h1>You're Booked!</h1>
+<p>Thank you for booking a spot at <strong>{{event_title}}</strong>.</p>
+<p><strong>Date:</strong> {{event_date}}<br /><strong>Location:</strong> {{event_location}}</p>
+<p><a href="{{calendar_link}}">Add to calendar</a></p>
+<h3>Your Tickets</h3>
+<p>Show your ticket code at the door.</p>
+{{{tickets}}}
+<p>Need to cancel or pass a ticket to someone else? <a href="{{manage_link}}">Manage your booking</a>.</p>
+<p>We look forward to seeing you there.</p>`
+    },
+    paymentInstructions: {
+        label: 'Payment Instructions',
+        description: 'Sent when someone books with manual payment, saying how to pay. The confirmation follows once you mark the booking paid.',
+        variables: ['customer_name', 'event_title', 'event_date', 'event_location', 'event_link', 'manage_link', 'quantity', 'amount_due', 'payment_instructions'],
+        subject: 'Your spot is reserved: {{event_title}}',
+        body: `<h1>Your spot is reserved</h1>
+<p>Thank you for booking <strong>{{event_title}}</strong>. We're holding your place until payment arrives.</p>
+<p><strong>Amount due:</strong> {{amount_due}}</p>
+<p>{{payment_instructions}}</p>
+<p><strong>Date:</strong> {{event_date}}<br /><strong>Location:</strong> {{event_location}}</p>
+<p>Your tickets will arrive once we've received your payment. Changed your mind? <a href="{{manage_link}}">Manage your booking</a>.</p>`
+    },
+    reminder: {
+        label: 'Event Reminder',
+        description: 'Sent ahead of the event to everyone with a confirmed booking, at the times set on each event.',
+        variables: ['customer_name', 'event_title', 'event_date', 'event_location', 'event_link', 'calendar_link', 'manage_link', 'ticket_link', 'quantity', 'tickets', 'starts_in'],
+        subject: 'Reminder: {{event_title}} starts {{starts_in}}',
+        body: `<h1>See you soon, {{customer_name}}!</h1>
+<p>This is a reminder that <strong>{{event_title}}</strong> starts {{starts_in}}.</p>
+<p><strong>Date:</strong> {{event_date}}<br /><strong>Location:</strong> {{event_location}}</p>
+{{{tickets}}}
+<p>Can't make it any more? <a href="{{manage_link}}">Manage your booking</a>.</p>`
+    },
+    cancellation: {
+        label: 'Cancellation',
+        description: 'Sent when a booking is cancelled, by you or by the attendee.',
+        variables: ['customer_name', 'event_title', 'event_date', 'event_location', 'event_link', 'quantity', 'refund_amount', 'refund_note'],
+        subject: 'Booking Cancelled: {{event_title}}',
+        body: `<h1>Your booking has been cancelled</h1>
+<p>Your booking for <strong>{{event_title}}</strong> on {{event_date}} has been cancelled.</p>
+{{{refund_note}}}
+<p>If you think this is a mistake, just reply to this email.</p>`
+    },
+    waitlistOffer: {
+        label: 'Waitlist Offer',
+        description: 'Sent when a spot opens up for someone on the waitlist.',
+        variables: ['customer_name', 'event_title', 'event_date', 'event_location', 'offer_link', 'offer_expires'],
+        subject: 'A spot opened up: {{event_title}}',
+        body: `<h1>Good news, {{customer_name}}!</h1>
+<p>A spot just opened up at <strong>{{event_title}}</strong> and it's yours if you want it.</p>
+<p><strong>Date:</strong> {{event_date}}<br /><strong>Location:</strong> {{event_location}}</p>
+<p><a href="{{offer_link}}">Claim your spot</a></p>
+<p>We're holding it for you until {{offer_expires}}. After that it goes to the next person on the waitlist.</p>`
+    },
+    refund: {
+        label: 'Refund',
+        description: 'Sent when money is refunded on a booking that stays active (a partial refund).',
+        variables: ['customer_name', 'event_title', 'event_date', 'refund_amount', 'manage_link'],
+        subject: 'Refund issued: {{event_title}}',
+        body: `<h1>We've issued a refund</h1>
+<p>A refund of <strong>{{refund_amount}}</strong> for your booking at <strong>{{event_title}}</strong> has been sent to your original payment method. It can take 5-10 business days to appear.</p>
+<p>Your booking is still active. <a href="{{manage_link}}">View your tickets</a>.</p>`
+    },
+    announcement: {
+        label: 'Announcement',
+        description: 'Wraps messages you send to everyone booked on an event, for example about a venue or time change.',
+        variables: ['customer_name', 'event_title', 'event_date', 'event_location', 'event_link', 'subject', 'message'],
+        subject: '{{subject}}',
+        body: `<h1>{{subject}}</h1>
+<p>Hi {{customer_name}},</p>
+{{{message}}}
+<p><strong>{{event_title}}</strong><br />{{event_date}}<br />{{event_location}}</p>`
+    },
+    manageLink: {
+        label: 'Manage Booking Link',
+        description: 'Sent when an attendee asks for a link to manage their bookings.',
+        variables: ['manage_link', 'link_hours'],
+        subject: 'Manage your booking',
+        body: `<h1>Manage your booking</h1>
+<p>Use the link below to see your tickets, cancel a booking or pass a ticket to someone else.</p>
+<p><a href="{{manage_link}}">Manage my bookings</a></p>
+<p>The link works for {{link_hours}} hours. If you didn't ask for it, you can ignore this email.</p>`
+    },
+    ticketTransfer: {
+        label: 'Transferred Ticket',
+        description: 'Sent to the new holder when an attendee passes a ticket on.',
+        variables: ['customer_name', 'holder_name', 'event_title', 'event_date', 'event_location', 'calendar_link', 'ticket_link', 'tickets'],
+        subject: 'Your ticket: {{event_title}}',
+        body: `<h1>{{customer_name}} sent you a ticket</h1>
+<p>You have a ticket for <strong>{{event_title}}</strong>.</p>
+<p><strong>Date:</strong> {{event_date}}<br /><strong>Location:</strong> {{event_location}}</p>
+<p><a href="{{calendar_link}}">Add to calendar</a></p>
+{{{tickets}}}
+<p>Show this code at the door.</p>`
+    }
+};
+
+// Stand-in values for previews from Settings
+export const SAMPLE_VARIABLES = {
+    customer_name: 'Alex Morgan',
+    holder_name: 'Sam Rivera',
+    event_title: 'Full Moon Sound Bath',
+    event_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toLocaleString(),
+    event_location: 'The Studio, 12 Harbour Street',
+    event_link: '#',
+    calendar_link: '#',
+    manage_link: '#',
+    ticket_link: '#',
+    quantity: '2',
+    tickets: `<div style="border: 1px solid #e5e7eb; border-radius: 12px; padding: 16px; margin-bottom: 12px; text-align: center;">
+        <div style="width: 160px; height: 160px; margin: 0 auto; background: #f3f4f6; line-height: 160px; color: #9ca3af;">QR code</div>
+        <p><strong>Ticket 1: General Admission</strong><br />Alex Morgan</p>
+    </div>`,
+    amount_due: '$50.00',
+    payment_instructions: 'Pay by bank transfer to The Studio, quoting your name.',
+    refund_amount: '$25.00',
+    refund_note: '<p>A refund of <strong>$25.00</strong> has been issued to your original payment method. It can take 5-10 business days to appear.</p>',
+    offer_link: '#',
+    offer_expires: new Date(Date.now() + 24 * 60 * 60 * 1000).toLocaleString(),
+    link_hours: '24',
+    starts_in: 'in 1 day',
+    subject: 'Change of venue: Full Moon Sound Bath',
+    message: '<p>We\'ve moved to a bigger room. Everything else stays the same.</p>'
+};
+
+export const escapeHtml = (text) => String(text).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+
+const fillTemplate = (template, variables, { escape }) => template
+    .replace(/\{\{\{\s*(\w+)\s*\}\}\}/g, (_, name) => String(variables[name] ?? ''))
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => escape ? escapeHtml(variables[name] ?? '') : String(variables[name] ?? ''));
+
+// Only plain hex colors reach the inline styles
+const brandColorOf = (settings) => /^#[0-9a-f]{3,8}$/i.test(settings?.brandColor || '') ? settings.brandColor : '#0205b7';
+
+const layout = (body, settings) => {
+    const brandColor = brandColorOf(settings);
+    const studioName = settings?.emailConfig?.fromName || 'EventForge';
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>a { color: ${brandColor}; } h1 { color: ${brandColor}; font-size: 24px; }</style></head>
+<body style="margin: 0; padding: 24px; background: #f9fafb; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 16px; overflow: hidden; border: 1px solid #e5e7eb;">
+        <div style="background: ${brandColor}; color: #ffffff; padding: 16px 24px; font-weight: bold; font-size: 18px;">${escapeHtml(studioName)}</div>
+        <div style="padding: 24px;">${body}</div>
+    </div>
+    <p style="text-align: center; font-size: 12px; color: #9ca3af;">Sent by ${escapeHtml(studioName)}</p>
+</body>
+</html>`;
+};
+
+// The studio's override if it has one, otherwise the built-in template
+const templateFor = (key, settings) => {
+    const base = EMAIL_TEMPLATES[key];
+    if (!base) throw new Error(`Unknown email template: ${key}`);
+    const custom = settings?.emailConfig?.templates?.[key];
+    return { subject: custom?.subject?.trim() || base.subject, body: custom?.body?.trim() || base.body };
+};
+
+export const renderEmail = (key, variables, settings) => {
+    const template = templateFor(key, settings);
+    return {
+        subject: fillTemplate(template.subject, variables, { escape: false }),
+        html: layout(fillTemplate(template.body, variables, { escape: true }), settings)
+    };
+};
+
+export const senderFor = (settings) => {
+    const { fromName, fromAddress } = settings?.emailConfig || {};
+    if (fromAddress) return fromName ? `${fromName.replace(/[<>"]/g, '')} <${fromAddress}>` : fromAddress;
+    return process.env.EMAIL_FROM || DEFAULT_FROM;
+};
+
+// Read lazily: this module is imported before index.js loads .env
+export const emailTransport = () => process.env.EMAIL_TRANSPORT
+    || (process.env.RESEND_API_KEY ? 'resend' : process.env.NODE_ENV === 'production' ? 'none' : 'file');
+
+let resend;
+const resendClient = () => resend || (resend = new Resend(process.env.RESEND_API_KEY));
+
+const outboxDir = () => process.env.EMAIL_OUTBOX_DIR || path.join(process.env.DATA_DIR || path.join(__dirname, '../data'), 'outbox');
+
+const writeToOutbox = (message) => {
+    const dir = outboxDir();
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    const slug = message.to.join(',').replace(/[^a-z0-9@.]+/gi, '_');
+    const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.template}-${slug}.html`);
+    const headers = [`From: ${message.from}`, `To: ${message.to.join(', ')}`, message.replyTo && `Reply-To: ${message.replyTo}`, `Subject: ${message.subject}`]
+        .filter(Boolean).join('\n');
+    fs.writeFileSync(file, `<!--\n${headers.replace(/--/g, '- -')}\n-->\n${message.html}`);
+    for (const attachment of message.attachments) {
+        fs.writeFileSync(file.replace(/\.html$/, `-${attachment.filename}`), attachment.content);
+    }
+    console.log(`Email written to ${file}`);
+};
+
+// Renders and delivers one message. Never throws: a failed email mustn't fail the booking that sent it.
+// Resolves with { status: 'sent' | 'failed' | 'skipped', error? } for callers that track delivery.
+// attachments: [{ filename, content, contentType }], e.g. the event's .ics file
+export const sendEmail = async (key, { to, variables, settings, attachments = [] }) => {
+    const transport = emailTransport();
+    if (transport === 'none' || !to) return { status: 'skipped' };
+    try {
+        const { subject, html } = renderEmail(key, variables, settings);
+        const message = { template: key, from: senderFor(settings), to: [to], replyTo: settings?.emailConfig?.replyTo || undefined, subject, html, attachments };
+
+        if (transport === 'file') {
+            writeToOutbox(message);
+            return { status: 'sent' };
+        }
+
+        const { error } = await resendClient().emails.send({
+            from: message.from, to: message.to, replyTo: message.replyTo, subject, html,
+            attachments: attachments.length ? attachments : undefined
+        });
+        if (error) {
+            console.error('Resend Error:', error);
+            return { status: 'failed', error: error.message };
+        }
+        return { status: 'sent' };
+    } catch (e) {
+        console.error(`Failed to send ${key} email:`, e);
+        return { status: 'failed', error: e.message };
+    }
+};
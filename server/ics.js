@@ -0,0 +1,123 @@
+// iCalendar (RFC 5545) files: single events for "add to calendar" links and email attachments,
+// and the feed of every published event that calendar apps subscribe to.
+// Times are written as wall-clock times with a TZID, backed by a VTIMEZONE built from Intl,
+// so calendars show the event at its local time wherever the attendee is.
+import { eventTimezone, eventStart, eventEnd, studioTimezone, toWallTime, zoneOffsetMinutes, offsetTransitions } from './timezones.js';
+
+const pad = (n, width = 2) => String(n).padStart(width, '0');
+
+const formatUtc = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatWall = ({ year, month, day, hour, minute, second }) =>
+    `${pad(year, 4)}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}${pad(second)}`;
+
+const formatOffset = (minutes) => `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+// Commas, semicolons and backslashes are structural in ICS text values
+const escapeText = (text) => String(text || '').replace(/\\/g, '\\\\').replace(/([,;])/g, '\\$1').replace(/\r?\n/g, '\\n');
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+const foldLine = (line) => {
+    const chunks = [];
+    let rest = line;
+    while (Buffer.byteLength(rest) > 75) {
+        let cut = 75;
+        while (Buffer.byteLength(rest.slice(0, cut)) > 75) cut--;
+        chunks.push(rest.slice(0, cut));
+        rest = ' ' + rest.slice(cut);
+    }
+    chunks.push(rest);
+    return chunks.join('\r\n');
+};
+
+// One observance per offset change in the years the events fall in. The larger of a zone's
+// offsets is its daylight time; zones without DST get a single STANDARD block.
+const vtimezone = (timezone, years) => {
+    const fromYear = Math.min(...years), toYear = Math.max(...years);
+    const transitions = offsetTransitions(timezone, fromYear, toYear);
+    const initial = zoneOffsetMinutes(timezone, new Date(Date.UTC(fromYear, 0, 1)));
+    const standardOffset = Math.min(initial, ...transitions.map(t => t.to));
+
+    const observance = (onset, from, to) => [
+        `BEGIN:${to > standardOffset ? 'DAYLIGHT' : 'STANDARD'}`,
+        `DTSTART:${onset}`,
+        `TZOFFSETFROM:${formatOffset(from)}`,
+        `TZOFFSETTO:${formatOffset(to)}`,
+        `END:${to > standardOffset ? 'DAYLIGHT' : 'STANDARD'}`
+    ];
+
+    return [
+        'BEGIN:VTIMEZONE',
+        `TZID:${timezone}`,
+        ...observance('19700101T000000', initial, initial),
+        // Onsets are given in the local time in force just before the change
+        ...transitions.flatMap(t => observance(formatUtc(new Date(t.at.getTime() + t.from * 60000)).replace('Z', ''), t.from, t.to)),
+        'END:VTIMEZONE'
+    ];
+};
+
+// One line per agenda item, by day then time; tracks and rooms follow the title. Mirrors utils/agenda.ts.
+const agendaText = (agenda = []) => {
+    const multiDay = agenda.some(item => (item.day || 1) > 1);
+    return [...agenda]
+        .sort((a, b) => (a.day || 1) - (b.day || 1) || String(a.time).localeCompare(String(b.time)))
+        .map(item => {
+            const where = [item.track, item.room].filter(Boolean).join(', ');
+            const time = item.endTime ? `${item.time}–${item.endTime}` : item.time;
+            return `${multiDay ? `Day ${item.day || 1} ` : ''}${time} ${item.title}${where ? ` (${where})` : ''}${item.description ? ` - ${item.description}` : ''}`;
+        })
+        .join('\n');
+};
+
+// Description text: the event blurb, its agenda and a link back to the event page
+const describeEvent = (eventItem, url) => {
+    const agenda = agendaText(eventItem.agenda);
+    return [eventItem.description, agenda && `Agenda:\n${agenda}`, url].filter(Boolean).join('\n\n');
+};
+
+const vevent = (eventItem, { url, settings, uidDomain }) => {
+    const timezone = eventTimezone(eventItem, settings);
+    const start = eventStart(eventItem, settings);
+    const end = eventEnd(eventItem, settings);
+    return [
+        'BEGIN:VEVENT',
+        `UID:${eventItem.id}@${uidDomain}`,
+        `DTSTAMP:${formatUtc(new Date())}`,
+        `DTSTART;TZID=${timezone}:${formatWall(toWallTime(start, timezone))}`,
+        `DTEND;TZID=${timezone}:${formatWall(toWallTime(end, timezone))}`,
+        `SUMMARY:${escapeText(eventItem.title)}`,
+        `LOCATION:${escapeText(eventItem.location)}`,
+        `DESCRIPTION:${escapeText(describeEvent(eventItem, url))}`,
+        ...(eventItem.tags?.length ? [`CATEGORIES:${eventItem.tags.map(escapeText).join(',')}`] : []),
+        `URL:${url}`,
+        'END:VEVENT'
+    ];
+};
+
+// events: published events; urlFor(event) gives each one's public page.
+// name and refreshHours only matter for subscribed feeds.
+export const buildCalendar = (events, { settings, urlFor, uidDomain, name, refreshHours }) => {
+    const dated = events.filter(e => !isNaN(eventStart(e, settings).getTime()));
+
+    // One VTIMEZONE per zone in use, covering the years its events span
+    const zoneYears = new Map();
+    for (const eventItem of dated) {
+        const zone = eventTimezone(eventItem, settings);
+        const years = [eventStart(eventItem, settings), eventEnd(eventItem, settings)].map(d => d.getUTCFullYear());
+        zoneYears.set(zone, [...(zoneYears.get(zone) || []), ...years]);
+    }
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//EventForge//Events//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...(name ? [`X-WR-CALNAME:${escapeText(name)}`, `X-WR-TIMEZONE:${studioTimezone(settings)}`] : []),
+        ...(refreshHours ? [`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshHours}H`, `X-PUBLISHED-TTL:PT${refreshHours}H`] : []),
+        ...[...zoneYears].flatMap(([zone, years]) => vtimezone(zone, years)),
+        ...dated.flatMap(e => vevent(e, { url: urlFor(e), settings, uidDomain })),
+        'END:VCALENDAR'
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,32 @@
+// Magic links for the attendee "manage my booking" page. A token is "<email>.<expiry>.<signature>"
+// (email base64url-encoded, expiry in ms), so checking one needs no stored state. A token opens
+// every booking made with that email address until it expires.
+import crypto from 'crypto';
+
+// Read lazily: this module is imported before index.js loads .env. A dedicated key with no
+// fallback, so a leaked ticket or admin secret can't be used to open someone else's bookings.
+const linkSecret = () => {
+    if (!process.env.MAGIC_LINK_SECRET) throw new Error('MAGIC_LINK_SECRET is not set');
+    return process.env.MAGIC_LINK_SECRET;
+};
+
+const sign = (payload) => crypto.createHmac('sha256', linkSecret()).update(`manage:${payload}`).digest('base64url').slice(0, 32);
+
+export const manageToken = (email, expiresAt) => {
+    const payload = `${Buffer.from(email.trim().toLowerCase()).toString('base64url')}.${new Date(expiresAt).getTime()}`;
+    return `${payload}.${sign(payload)}`;
+};
+
+// Returns the email the token was issued for, or null if it's forged, mangled or expired
+export const verifyManageToken = (token) => {
+    const parts = String(token || '').split('.');
+    if (parts.length !== 3) return null;
+    const [encodedEmail, expiry, signature] = parts;
+
+    const expected = sign(`${encodedEmail}.${expiry}`);
+    if (signature.length !== expected.length) return null;
+    if (!crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) return null;
+    if (!(Number(expiry) > Date.now())) return null;
+
+    return Buffer.from(encodedEmail, 'base64url').toString();
+};
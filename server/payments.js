@@ -0,0 +1,167 @@
+import { normalizeCurrency, toMinorUnits, formatDecimalAmount } from './currency.js';
+
+// Payment providers other than Stripe (which is driven by its webhook in index.js).
+// Every provider implements the same shape:
+//   isConfigured()                      -> whether the server has credentials for it
+//   createCheckout(payment, urls)       -> { url, providerRef } to redirect the buyer, or { pending: true }
+//   confirm(payment)                    -> { paid } once the buyer comes back from the provider
+//   refund(payment)                     -> { refundRef } to give back a confirmed payment in full
+// `payment` is the record from the payments store: { id, amount, currency, description, customer, providerRef }.
+
+// --- Square (Payment Links + Orders API) ---
+const SQUARE_BASE_URL = process.env.SQUARE_ENVIRONMENT === 'production'
+    ? 'https://connect.squareup.com'
+    : 'https://connect.squareupsandbox.com';
+
+const squareRequest = async (endpoint, init = {}) => {
+    const response = await fetch(`${SQUARE_BASE_URL}${endpoint}`, {
+        ...init,
+        headers: {
+            'Authorization': `Bearer ${process.env.SQUARE_ACCESS_TOKEN}`,
+            'Content-Type': 'application/json',
+            'Square-Version': '2025-01-23'
+        }
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(`Square Error: ${data.errors?.[0]?.detail || response.statusText}`);
+    return data;
+};
+
+const square = {
+    isConfigured: () => !!(process.env.SQUARE_ACCESS_TOKEN && process.env.SQUARE_LOCATION_ID),
+
+    createCheckout: async (payment, { returnUrl }) => {
+        const data = await squareRequest('/v2/online-checkout/payment-links', {
+            method: 'POST',
+            body: JSON.stringify({
+                idempotency_key: payment.id,
+                quick_pay: {
+                    name: payment.description,
+                    price_money: { amount: toMinorUnits(payment.amount, payment.currency), currency: normalizeCurrency(payment.currency).toUpperCase() },
+                    location_id: process.env.SQUARE_LOCATION_ID
+                },
+                checkout_options: { redirect_url: returnUrl },
+                pre_populated_data: { buyer_email: payment.customer.email }
+            })
+        });
+        return { url: data.payment_link.url, providerRef: data.payment_link.order_id };
+    },
+
+    // Square redirects back whether or not the buyer paid, so check the order itself
+    confirm: async (payment) => {
+        const { order } = await squareRequest(`/v2/orders/${payment.providerRef}`);
+        const fullyPaid = (order.tenders || []).length > 0 && (order.net_amount_due_money?.amount ?? 0) === 0;
+        return { paid: order.state === 'COMPLETED' || fullyPaid };
+    },
+
+    // Each tender on the order is a payment of its own and is refunded separately
+    refund: async (payment) => {
+        const { order } = await squareRequest(`/v2/orders/${payment.providerRef}`);
+        const refundIds = [];
+        for (const tender of order.tenders || []) {
+            const { refund } = await squareRequest('/v2/refunds', {
+                method: 'POST',
+                body: JSON.stringify({
+                    idempotency_key: `${payment.id}-${tender.id}`.slice(0, 45),
+                    payment_id: tender.payment_id || tender.id,
+                    amount_money: tender.amount_money,
+                    reason: 'Event sold out'
+                })
+            });
+            refundIds.push(refund.id);
+        }
+        return { refundRef: refundIds.join(',') };
+    }
+};
+
+// --- PayPal (Orders v2 API) ---
+const PAYPAL_BASE_URL = process.env.PAYPAL_ENVIRONMENT === 'production'
+    ? 'https://api-m.paypal.com'
+    : 'https://api-m.sandbox.paypal.com';
+
+const paypalRequest = async (endpoint, init = {}) => {
+    const auth = Buffer.from(`${process.env.PAYPAL_CLIENT_ID}:${process.env.PAYPAL_CLIENT_SECRET}`).toString('base64');
+    const tokenResponse = await fetch(`${PAYPAL_BASE_URL}/v1/oauth2/token`, {
+        method: 'POST',
+        headers: { 'Authorization': `Basic ${auth}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'grant_type=client_credentials'
+    });
+    if (!tokenResponse.ok) throw new Error(`PayPal Auth Error: ${tokenResponse.statusText}`);
+    const { access_token } = await tokenResponse.json();
+
+    const response = await fetch(`${PAYPAL_BASE_URL}${endpoint}`, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${access_token}`, 'Content-Type': 'application/json', ...init.headers }
+    });
+    const data = await response.json();
+    if (!response.ok) {
+        const error = new Error(`PayPal Error: ${data.details?.[0]?.issue || data.message || response.statusText}`);
+        error.issue = data.details?.[0]?.issue;
+        throw error;
+    }
+    return data;
+};
+
+const paypal = {
+    isConfigured: () => !!(process.env.PAYPAL_CLIENT_ID && process.env.PAYPAL_CLIENT_SECRET),
+
+    createCheckout: async (payment, { returnUrl, cancelUrl }) => {
+        const order = await paypalRequest('/v2/checkout/orders', {
+            method: 'POST',
+            headers: { 'PayPal-Request-Id': payment.id },
+            body: JSON.stringify({
+                intent: 'CAPTURE',
+                purchase_units: [{
+                    reference_id: payment.id,
+                    description: payment.description.substring(0, 127),
+                    amount: { currency_code: normalizeCurrency(payment.currency).toUpperCase(), value: formatDecimalAmount(payment.amount, payment.currency) }
+                }],
+                payment_source: {
+                    paypal: {
+                        experience_context: { return_url: returnUrl, cancel_url: cancelUrl, user_action: 'PAY_NOW', shipping_preference: 'NO_SHIPPING' }
+                    }
+                }
+            })
+        });
+        const approveLink = order.links.find(l => l.rel === 'payer-action' || l.rel === 'approve');
+        return { url: approveLink.href, providerRef: order.id };
+    },
+
+    // Approval alone moves no money; the capture does
+    confirm: async (payment) => {
+        try {
+            const capture = await paypalRequest(`/v2/checkout/orders/${payment.providerRef}/capture`, { method: 'POST' });
+            return { paid: capture.status === 'COMPLETED' };
+        } catch (e) {
+            if (e.issue !== 'ORDER_ALREADY_CAPTURED') throw e;
+            const order = await paypalRequest(`/v2/checkout/orders/${payment.providerRef}`);
+            return { paid: order.status === 'COMPLETED' };
+        }
+    },
+
+    // Refunds go against the capture, not the order; an empty body refunds it in full
+    refund: async (payment) => {
+        const order = await paypalRequest(`/v2/checkout/orders/${payment.providerRef}`);
+        const refundIds = [];
+        for (const capture of order.purchase_units?.[0]?.payments?.captures || []) {
+            const refund = await paypalRequest(`/v2/payments/captures/${capture.id}/refund`, {
+                method: 'POST',
+                headers: { 'PayPal-Request-Id': `${payment.id}-${capture.id}` },
+                body: JSON.stringify({ note_to_payer: 'Event sold out' })
+            });
+            refundIds.push(refund.id);
+        }
+        return { refundRef: refundIds.join(',') };
+    }
+};
+
+// --- Manual (pay at the door, invoice, Venmo/crypto transfer) ---
+// Nothing to redirect to: the booking is recorded as pending and the admin marks it paid.
+const manual = {
+    isConfigured: () => true,
+    createCheckout: async () => ({ pending: true }),
+    confirm: async () => ({ paid: false }),
+    refund: async () => ({ refundRef: undefined })
+};
+
+export const paymentProviders = { square, paypal, manual };
@@ -0,0 +1,42 @@
+// SMS providers for event reminders. Every provider implements the same shape:
+//   isConfigured()        -> whether the server has credentials for it
+//   send({ to, body })    -> resolves once the provider has accepted the message, throws otherwise
+// SMS_PROVIDER picks one: 'twilio', 'console' (logs messages instead of sending them; the default
+// outside production) or 'none' (the default in production).
+
+// --- Twilio (Messages API) ---
+const twilio = {
+    isConfigured: () => !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_FROM_NUMBER),
+
+    send: async ({ to, body }) => {
+        const sid = process.env.TWILIO_ACCOUNT_SID;
+        const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${sid}/Messages.json`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Basic ${Buffer.from(`${sid}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64')}`,
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({ To: to, From: process.env.TWILIO_FROM_NUMBER, Body: body })
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(`Twilio Error: ${data.message || response.statusText}`);
+    }
+};
+
+// --- Console (development stand-in) ---
+const consoleProvider = {
+    isConfigured: () => true,
+
+    send: async ({ to, body }) => {
+        console.log(`[SMS to ${to}] ${body}`);
+    }
+};
+
+export const smsProviders = { twilio, console: consoleProvider };
+
+// The configured provider, or null when SMS is off. Read lazily: this module is imported before index.js loads .env
+export const smsProvider = () => {
+    const name = process.env.SMS_PROVIDER || (process.env.NODE_ENV === 'production' ? 'none' : 'console');
+    const provider = smsProviders[name];
+    return provider && provider.isConfigured() ? provider : null;
+};
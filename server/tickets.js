@@ -0,0 +1,46 @@
+// Signed e-ticket codes. A code is "<bookingId>.<ticket number>.<signature>", where the signature
+// is an HMAC over the first two parts, so door staff can trust any code that verifies without a
+// lookup table. Codes are derived, not stored: rotating TICKET_SECRET invalidates every ticket.
+// Transferring a ticket bumps its revision, which changes the signature and voids the old code.
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+
+// Read lazily: this module is imported before index.js loads .env. No fallback: a guessable key
+// would let anyone mint valid tickets, so index.js refuses to start without TICKET_SECRET.
+const ticketSecret = () => {
+    if (!process.env.TICKET_SECRET) throw new Error('TICKET_SECRET is not set');
+    return process.env.TICKET_SECRET;
+};
+
+const sign = (payload) => crypto.createHmac('sha256', ticketSecret()).update(payload).digest('base64url').slice(0, 22);
+
+// Ticket numbers start at 1, matching "Ticket 1 of 3" in emails. Revision 0 signs the bare
+// payload so tickets issued before transfers existed stay valid.
+export const ticketCode = (bookingId, ticketNumber, revision = 0) => {
+    const payload = `${bookingId}.${ticketNumber}`;
+    return `${payload}.${sign(revision ? `${payload}.${revision}` : payload)}`;
+};
+
+export const ticketCodes = (booking) =>
+    Array.from({ length: booking.quantity || 1 }, (_, i) => ticketCode(booking.id, i + 1, booking.ticketRevisions?.[i]));
+
+// Splits a code into its booking and ticket number; says nothing about whether it's genuine
+export const parseTicketCode = (code) => {
+    const parts = String(code || '').trim().split('.');
+    if (parts.length !== 3) return null;
+    return { bookingId: parts[0], ticketNumber: Number(parts[1]) };
+};
+
+// True only for the current code of one of this booking's tickets
+export const isTicketCodeFor = (code, booking) => {
+    const parsed = parseTicketCode(code);
+    if (!parsed || parsed.bookingId !== booking.id) return false;
+    const { ticketNumber } = parsed;
+    if (!Number.isInteger(ticketNumber) || ticketNumber < 1 || ticketNumber > (booking.quantity || 1)) return false;
+
+    const expected = ticketCode(booking.id, ticketNumber, booking.ticketRevisions?.[ticketNumber - 1]);
+    const given = String(code).trim();
+    return given.length === expected.length && crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+};
+
+export const ticketQrPng = (code) => QRCode.toBuffer(code, { width: 320, margin: 2, errorCorrectionLevel: 'M' });
@@ -0,0 +1,105 @@
+// Time zone helpers built on Intl, so no tz database needs shipping. Event.date and Event.endDate
+// are wall-clock times ("2026-12-01T19:00", from a datetime-local input) in the event's time zone.
+// utils/datetime.ts does the same for the browser.
+
+export const DEFAULT_DURATION_HOURS = 2; // For events without an end time
+
+// Intl throws a RangeError for names it doesn't know ("Mars/Olympus"), so zones are checked
+// once here and every helper below only ever sees a real one
+const knownZones = new Map();
+export const isValidTimezone = (timezone) => {
+    if (!timezone || typeof timezone !== 'string') return false;
+    if (!knownZones.has(timezone)) {
+        try {
+            new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+            knownZones.set(timezone, true);
+        } catch (e) {
+            knownZones.set(timezone, false);
+        }
+    }
+    return knownZones.get(timezone);
+};
+
+// The studio's zone from published settings, falling back to the server's own (which is how
+// Date parses wall-clock strings anyway)
+export const studioTimezone = (settings) => [settings?.timezone, process.env.TZ].find(isValidTimezone) || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// An unknown zone on the event is ignored rather than failing feeds, emails and reminders
+export const eventTimezone = (eventItem, settings) => isValidTimezone(eventItem?.timezone) ? eventItem.timezone : studioTimezone(settings);
+
+const wallClockParts = (date, timezone) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone, hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(date);
+    return Object.fromEntries(parts.filter(p => p.type !== 'literal').map(p => [p.type, Number(p.value)]));
+};
+
+// Minutes ahead of UTC in the zone at that instant (e.g. 60 for Paris in winter)
+export const zoneOffsetMinutes = (timezone, date) => {
+    const p = wallClockParts(date, timezone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// Strings with an explicit offset or Z are instants already; bare wall-clock times are read in the zone
+export const parseWallTime = (value, timezone) => {
+    const text = String(value || '');
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) return new Date(text);
+
+    const match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+    if (!match) return new Date(text);
+    const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).filter(v => v !== undefined).map(Number);
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    // Two passes settle on the right offset either side of a DST change
+    let instant = asUtc - zoneOffsetMinutes(timezone, new Date(asUtc)) * 60000;
+    instant = asUtc - zoneOffsetMinutes(timezone, new Date(instant)) * 60000;
+    return new Date(instant);
+};
+
+export const eventStart = (eventItem, settings) => parseWallTime(eventItem.date, eventTimezone(eventItem, settings));
+
+export const eventEnd = (eventItem, settings) => eventItem.endDate
+    ? parseWallTime(eventItem.endDate, eventTimezone(eventItem, settings))
+    : new Date(eventStart(eventItem, settings).getTime() + DEFAULT_DURATION_HOURS * 60 * 60 * 1000);
+
+// "Sunday, November 1, 2026, 7:00 – 9:00 PM GMT" on the event's own clock, for emails
+export const formatEventSchedule = (eventItem, settings) => {
+    const start = eventStart(eventItem, settings);
+    if (isNaN(start.getTime())) return eventItem.date || '';
+    return new Intl.DateTimeFormat('en-US', {
+        weekday: 'long', year: 'numeric', month: 'long', day: 'numeric',
+        hour: 'numeric', minute: '2-digit', timeZoneName: 'short', timeZone: eventTimezone(eventItem, settings)
+    }).formatRange(start, eventEnd(eventItem, settings));
+};
+
+// { year, month, day, hour, minute, second } on the zone's wall clock
+export const toWallTime = (date, timezone) => wallClockParts(date, timezone);
+
+// Every UTC offset change in the zone during the given years, as { at, from, to } (minutes ahead of UTC)
+export const offsetTransitions = (timezone, fromYear, toYear) => {
+    const transitions = [];
+    const day = 24 * 60 * 60 * 1000;
+    let cursor = Date.UTC(fromYear, 0, 1);
+    const end = Date.UTC(toYear + 1, 0, 1);
+    let offset = zoneOffsetMinutes(timezone, new Date(cursor));
+
+    while (cursor < end) {
+        const next = cursor + day;
+        const nextOffset = zoneOffsetMinutes(timezone, new Date(next));
+        if (nextOffset !== offset) {
+            // Narrow the change down to the minute
+            let low = cursor, high = next;
+            while (high - low > 60000) {
+                const mid = low + Math.floor((high - low) / 120000) * 60000;
+                if (zoneOffsetMinutes(timezone, new Date(mid)) === offset) low = mid;
+                else high = mid;
+            }
+            transitions.push({ at: new Date(high), from: offset, to: nextOffset });
+            offset = nextOffset;
+        }
+        cursor = next;
+    }
+    return transitions;
+};
@@ -0,0 +1,24 @@
+// The admin secret lives only on the server (ADMIN_SECRET). The organizer types it in the first
+// time an admin request needs it; it's kept for this browser tab and forgotten if the server rejects it.
+const STORAGE_KEY = 'eventforge.adminSecret';
+
+export const getAdminSecret = (): string => {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (stored) return stored;
+
+    const entered = window.prompt('Enter the admin secret (ADMIN_SECRET on the server):')?.trim();
+    if (!entered) throw new Error('Admin secret required');
+    sessionStorage.setItem(STORAGE_KEY, entered);
+    return entered;
+};
+
+export const forgetAdminSecret = () => sessionStorage.removeItem(STORAGE_KEY);
+
+// Authorization header for admin endpoints
+export const adminAuthHeader = () => ({ 'Authorization': `Bearer ${getAdminSecret()}` });
+
+// A 401 means the stored secret is wrong or has been rotated, so ask again next time
+export const checkAdminResponse = (response: Response) => {
+    if (response.status === 401) forgetAdminSecret();
+    return response;
+};
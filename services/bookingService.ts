@@ -0,0 +1,125 @@
+import { Announcement, AnnouncementAudience, AppSettings, Booking, BookingStats, CheckInResult, EmailPreview, EmailTemplateCatalog, EmailTemplateKey, PromoCode, QueuedCheckIn, Roster, SessionRoster, WaitlistEntry, WebhookLog } from '../types';
+import { adminAuthHeader, checkAdminResponse } from './adminAuth';
+
+// Determine API URL (Same as PublishService)
+const isDev = import.meta.env.DEV;
+const API_URL = isDev ? 'http://localhost:3001/api' : '/api';
+
+const adminFetch = async (endpoint: string, init: RequestInit = {}) => {
+    const response = checkAdminResponse(await fetch(`${API_URL}/${endpoint}`, {
+        ...init,
+        headers: {
+            'Content-Type': 'application/json',
+            ...adminAuthHeader(),
+            ...init.headers
+        }
+    }));
+    if (!response.ok) {
+        // Validation failures carry a readable message from the server
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Booking Service Error: ${response.statusText}`);
+    }
+    return await response.json();
+};
+
+export const BookingService = {
+    getBookings: async (eventId?: string): Promise<Booking[]> => {
+        const query = eventId ? `?eventId=${encodeURIComponent(eventId)}` : '';
+        const data = await adminFetch(`bookings${query}`);
+        return data.bookings || [];
+    },
+
+    // Confirmed bookings and revenue per event, keyed by event id
+    getStats: async (): Promise<Record<string, BookingStats>> => {
+        const data = await adminFetch('bookings/stats');
+        return data.stats || {};
+    },
+
+    // Confirm a pending (manual) booking once the money has arrived
+    markPaid: async (id: string): Promise<Booking> => {
+        const data = await adminFetch(`bookings/${encodeURIComponent(id)}/mark-paid`, { method: 'POST' });
+        return data.booking;
+    },
+
+    // Frees the seats and emails the attendee; refund only applies to Stripe payments
+    cancelBooking: async (id: string, refund: boolean): Promise<Booking> => {
+        const data = await adminFetch(`bookings/${encodeURIComponent(id)}/cancel`, { method: 'POST', body: JSON.stringify({ refund }) });
+        return data.booking;
+    },
+
+    getWaitlist: async (eventId: string): Promise<WaitlistEntry[]> => {
+        const data = await adminFetch(`events/${encodeURIComponent(eventId)}/waitlist`);
+        return data.waitlist || [];
+    },
+
+    removeWaitlistEntry: async (id: string): Promise<void> => {
+        await adminFetch(`waitlist/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    },
+
+    getRoster: async (eventId: string): Promise<Roster> => {
+        const data = await adminFetch(`events/${encodeURIComponent(eventId)}/roster`);
+        return { eventId, tickets: data.tickets || [], syncedAt: data.syncedAt };
+    },
+
+    // Sends one or more check-ins (a live scan, or a backlog from while the device was offline)
+    checkIn: async (eventId: string, checkIns: Pick<QueuedCheckIn, 'code' | 'checkedInAt'>[]): Promise<CheckInResult[]> => {
+        const data = await adminFetch(`events/${encodeURIComponent(eventId)}/checkins`, { method: 'POST', body: JSON.stringify({ checkIns }) });
+        return data.results || [];
+    },
+
+    // Each agenda session with the ticket holders signed up for it
+    getSessionRosters: async (eventId: string): Promise<SessionRoster[]> => {
+        const data = await adminFetch(`events/${encodeURIComponent(eventId)}/sessions/roster`);
+        return data.sessions || [];
+    },
+
+    // Recent Stripe webhook deliveries, newest first
+    getWebhookLog: async (): Promise<WebhookLog> => {
+        const data = await adminFetch('webhooks/events');
+        return { events: data.events || [], strict: !!data.strict, signed: !!data.signed };
+    },
+
+    getAnnouncements: async (eventId: string): Promise<{ announcements: Announcement[], audience: AnnouncementAudience }> => {
+        const data = await adminFetch(`events/${encodeURIComponent(eventId)}/announcements`);
+        return { announcements: data.announcements || [], audience: data.audience };
+    },
+
+    // Resolves once every recipient has been attempted, with the delivery result for each
+    sendAnnouncement: async (eventId: string, announcement: { subject: string, message: string, includeWaitlist: boolean }): Promise<Announcement> => {
+        const data = await adminFetch(`events/${encodeURIComponent(eventId)}/announcements`, { method: 'POST', body: JSON.stringify(announcement) });
+        return data.announcement;
+    },
+
+    retryAnnouncement: async (id: string): Promise<Announcement> => {
+        const data = await adminFetch(`announcements/${encodeURIComponent(id)}/retry`, { method: 'POST' });
+        return data.announcement;
+    },
+
+    getEmailTemplates: async (): Promise<EmailTemplateCatalog> => {
+        return await adminFetch('email/templates');
+    },
+
+    // Renders with sample data; settings may hold edits that haven't been published yet
+    previewEmail: async (template: EmailTemplateKey, settings: AppSettings): Promise<EmailPreview> => {
+        return await adminFetch('email/preview', { method: 'POST', body: JSON.stringify({ template, settings }) });
+    },
+
+    getPromoCodes: async (): Promise<PromoCode[]> => {
+        const data = await adminFetch('promo-codes');
+        return data.promoCodes || [];
+    },
+
+    createPromoCode: async (promo: Pick<PromoCode, 'code' | 'type' | 'value' | 'eventId' | 'maxRedemptions' | 'expiresAt'>): Promise<PromoCode> => {
+        const data = await adminFetch('promo-codes', { method: 'POST', body: JSON.stringify(promo) });
+        return data.promoCode;
+    },
+
+    setPromoCodeActive: async (id: string, active: boolean): Promise<PromoCode> => {
+        const data = await adminFetch(`promo-codes/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify({ active }) });
+        return data.promoCode;
+    },
+
+    deletePromoCode: async (id: string): Promise<void> => {
+        await adminFetch(`promo-codes/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    }
+};
@@ -1,19 +1,19 @@
 import { AgendaItem } from '../types';
+import { adminAuthHeader, checkAdminResponse } from './adminAuth';
 
 // Determine API URL (Same as PublishService)
 const isDev = import.meta.env.DEV;
 const API_URL = isDev ? 'http://localhost:3001/api/ai' : '/api/ai';
-const ADMIN_SECRET = '!DD11301987!'; // Needs to match server. In production, handle via secure session/cookie if possible, but Bearer is fine for this scope.
 
 const apiCall = async (endpoint: string, body: any) => {
-    const response = await fetch(`${API_URL}/${endpoint}`, {
+    const response = checkAdminResponse(await fetch(`${API_URL}/${endpoint}`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${ADMIN_SECRET}`
+            ...adminAuthHeader()
         },
         body: JSON.stringify(body)
-    });
+    }));
     if (!response.ok) throw new Error(`AI Service Error: ${response.statusText}`);
     return await response.json();
 };
@@ -38,9 +38,13 @@ export const generateEventImage = async (prompt: string): Promise<string> => {
 };
 
 // 3. AI Agenda Builder
-export const generateEventAgenda = async (title: string, durationHours: number): Promise<AgendaItem[]> => {
+// Fills every day, with parallel sessions when there's more than one track
+export const generateEventAgenda = async (
+    title: string,
+    structure: { days: number, hoursPerDay: number, startTime?: string, tracks?: string[] }
+): Promise<AgendaItem[]> => {
     try {
-        const data = await apiCall('agenda', { title, duration: durationHours });
+        const data = await apiCall('agenda', { title, duration: structure.hoursPerDay, days: structure.days, startTime: structure.startTime, tracks: structure.tracks });
         return data.agenda || [];
     } catch (error) {
         console.error("GenAI Error:", error);
@@ -1,12 +1,16 @@
 
-import { Event, Asset, AppSettings } from '../types';
+import { Event, Asset, AppSettings, Roster, QueuedCheckIn, Speaker, Venue } from '../types';
 
 const DB_NAME = 'EventForgeDB';
-const DB_VERSION = 2; // Incremented version for new store
+const DB_VERSION = 5; // v3: door check-in rosters and offline queue; v4: speaker library; v5: venue library
 const STORES = {
   EVENTS: 'events',
   ASSETS: 'assets',
-  SETTINGS: 'settings'
+  SETTINGS: 'settings',
+  ROSTERS: 'rosters',
+  CHECKIN_QUEUE: 'checkinQueue',
+  SPEAKERS: 'speakers',
+  VENUES: 'venues'
 };
 
 // Open Database
@@ -28,6 +32,19 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
         db.createObjectStore(STORES.SETTINGS, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(STORES.ROSTERS)) {
+        db.createObjectStore(STORES.ROSTERS, { keyPath: 'eventId' });
+      }
+      if (!db.objectStoreNames.contains(STORES.CHECKIN_QUEUE)) {
+        // Keyed by ticket code, so scanning the same ticket twice offline queues it once
+        db.createObjectStore(STORES.CHECKIN_QUEUE, { keyPath: 'code' });
+      }
+      if (!db.objectStoreNames.contains(STORES.SPEAKERS)) {
+        db.createObjectStore(STORES.SPEAKERS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.VENUES)) {
+        db.createObjectStore(STORES.VENUES, { keyPath: 'id' });
+      }
     };
   });
 };
@@ -86,6 +103,32 @@ export const LocalDB = {
     await performTransaction(STORES.ASSETS, 'readwrite', (store) => store.delete(id));
   },
 
+  // --- Speakers ---
+  getAllSpeakers: async (): Promise<Speaker[]> => {
+    return performTransaction(STORES.SPEAKERS, 'readonly', (store) => store.getAll());
+  },
+
+  saveSpeaker: async (speaker: Speaker): Promise<void> => {
+    await performTransaction(STORES.SPEAKERS, 'readwrite', (store) => store.put(speaker));
+  },
+
+  deleteSpeaker: async (id: string): Promise<void> => {
+    await performTransaction(STORES.SPEAKERS, 'readwrite', (store) => store.delete(id));
+  },
+
+  // --- Venues ---
+  getAllVenues: async (): Promise<Venue[]> => {
+    return performTransaction(STORES.VENUES, 'readonly', (store) => store.getAll());
+  },
+
+  saveVenue: async (venue: Venue): Promise<void> => {
+    await performTransaction(STORES.VENUES, 'readwrite', (store) => store.put(venue));
+  },
+
+  deleteVenue: async (id: string): Promise<void> => {
+    await performTransaction(STORES.VENUES, 'readwrite', (store) => store.delete(id));
+  },
+
   // --- Settings ---
   getSettings: async (): Promise<AppSettings | undefined> => {
     return performTransaction(STORES.SETTINGS, 'readonly', (store) => store.get('global'));
@@ -95,6 +138,30 @@ export const LocalDB = {
      await performTransaction(STORES.SETTINGS, 'readwrite', (store) => store.put({ ...settings, id: 'global' }));
   },
   
+  // --- Door Check-in (offline support) ---
+  getRoster: async (eventId: string): Promise<Roster | undefined> => {
+    return performTransaction(STORES.ROSTERS, 'readonly', (store) => store.get(eventId));
+  },
+
+  saveRoster: async (roster: Roster): Promise<void> => {
+    await performTransaction(STORES.ROSTERS, 'readwrite', (store) => store.put(roster));
+  },
+
+  queueCheckIn: async (checkIn: QueuedCheckIn): Promise<void> => {
+    await performTransaction(STORES.CHECKIN_QUEUE, 'readwrite', (store) => store.put(checkIn));
+  },
+
+  getQueuedCheckIns: async (eventId: string): Promise<QueuedCheckIn[]> => {
+    const all: QueuedCheckIn[] = await performTransaction(STORES.CHECKIN_QUEUE, 'readonly', (store) => store.getAll());
+    return all.filter(c => c.eventId === eventId);
+  },
+
+  removeQueuedCheckIns: async (codes: string[]): Promise<void> => {
+    await performTransaction(STORES.CHECKIN_QUEUE, 'readwrite', (store) => {
+      codes.forEach(code => store.delete(code));
+    });
+  },
+
   // Initialize with seed data if empty
   seedData: async (initialEvents: Event[], initialAssets: Asset[]) => {
     const events = await LocalDB.getAllEvents();
@@ -111,12 +178,16 @@ export const LocalDB = {
   createBackup: async (): Promise<string> => {
     const events = await LocalDB.getAllEvents();
     const settings = await LocalDB.getSettings();
+    const speakers = await LocalDB.getAllSpeakers();
+    const venues = await LocalDB.getAllVenues();
     // Note: We are not exporting Blob assets in this JSON backup to avoid memory crashes.
     // We only export the text data.
     const backupData = {
       timestamp: new Date().toISOString(),
       events,
-      settings
+      settings,
+      speakers,
+      venues
     };
     return JSON.stringify(backupData, null, 2);
   },
@@ -134,6 +205,18 @@ export const LocalDB = {
       if (data.settings) {
         await LocalDB.saveSettings(data.settings);
       }
+
+      if (data.speakers && Array.isArray(data.speakers)) {
+        for (const speaker of data.speakers) {
+          await LocalDB.saveSpeaker(speaker);
+        }
+      }
+
+      if (data.venues && Array.isArray(data.venues)) {
+        for (const venue of data.venues) {
+          await LocalDB.saveVenue(venue);
+        }
+      }
       return true;
     } catch (e) {
       console.error("Restore failed", e);
@@ -1,9 +1,9 @@
-import { Event, AppSettings, Asset } from '../types';
+import { Event, AppSettings, Asset, Availability, AppliedPromo, TicketDetails, ManageSession, ManagedBooking, SessionAvailability, Speaker, TicketSchedule, Venue } from '../types';
+import { adminAuthHeader, checkAdminResponse } from './adminAuth';
 
 // Detect environment: Prod (relative path) vs Dev (localhost:3001)
 const isDev = import.meta.env.DEV;
 const API_URL = isDev ? 'http://localhost:3001/api' : '/api';
-const ADMIN_SECRET = 'secret'; // In a real app, this would be user-input or env var
 
 export const PublishService = {
     
@@ -12,13 +12,11 @@ export const PublishService = {
         const formData = new FormData();
         formData.append('file', file);
 
-        const response = await fetch(`${API_URL}/upload`, {
+        const response = checkAdminResponse(await fetch(`${API_URL}/upload`, {
             method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${ADMIN_SECRET}`
-            },
+            headers: adminAuthHeader(),
             body: formData
-        });
+        }));
 
         if (!response.ok) {
             throw new Error('Failed to upload image');
@@ -29,8 +27,9 @@ export const PublishService = {
     },
 
     // Main Publish Function
-    // Returns the array of events as they were saved on the server (including new Stripe IDs)
-    publishEvents: async (events: Event[], settings: AppSettings, globalAssets: Asset[]): Promise<Event[]> => {
+    // Returns the events as they were saved on the server (including new Stripe IDs), and warnings
+    // about published events booked into the same room at the same time
+    publishEvents: async (events: Event[], settings: AppSettings, globalAssets: Asset[], speakers: Speaker[] = [], venues: Venue[] = []): Promise<{ events: Event[], warnings: string[] }> => {
         // 1. Deep copy events to avoid mutating local state during processing
         const eventsToPublish = JSON.parse(JSON.stringify(events)) as Event[];
 
@@ -80,17 +79,19 @@ export const PublishService = {
         }
 
         // 3. Send JSON Payload
-        const response = await fetch(`${API_URL}/publish`, {
+        const response = checkAdminResponse(await fetch(`${API_URL}/publish`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                'Authorization': `Bearer ${ADMIN_SECRET}`
+                ...adminAuthHeader()
             },
             body: JSON.stringify({ 
                 events: eventsToPublish,
-                settings: settings 
+                settings: settings,
+                speakers: speakers,
+                venues: venues
             })
-        });
+        }));
 
         if (!response.ok) {
             throw new Error('Failed to publish events manifest');
@@ -98,21 +99,197 @@ export const PublishService = {
 
         const result = await response.json();
         // The server might return the events array with added Stripe IDs
-        if (result.events) {
-            return result.events;
+        return { events: result.events || eventsToPublish, warnings: result.warnings || [] };
+    },
+
+    // Uploads speaker photos picked from the asset library. The public URL is kept on the speaker,
+    // so each photo is uploaded once; picking another photo clears it.
+    prepareSpeakers: async (speakers: Speaker[], globalAssets: Asset[]): Promise<Speaker[]> => {
+        const prepared: Speaker[] = [];
+        for (const speaker of speakers) {
+            const asset = speaker.photoAssetId ? globalAssets.find(a => a.id === speaker.photoAssetId) : undefined;
+            if (speaker.photoUrl || !asset) {
+                prepared.push(speaker);
+                continue;
+            }
+            const photoUrl = asset.blob ? await PublishService.uploadImage(asset.blob) : asset.url;
+            prepared.push({ ...speaker, photoUrl });
         }
-        return eventsToPublish;
+        return prepared;
     },
 
     // Helper to start Checkout
-    createCheckoutSession: async (priceId: string, eventId: string): Promise<string> => {
+    createCheckoutSession: async (eventId: string, options: { priceId?: string, ticketTypeId?: string, offerToken?: string, quantity?: number, attendees?: string[], promoCode?: string }): Promise<string> => {
         const response = await fetch(`${API_URL}/checkout`, {
              method: 'POST',
              headers: { 'Content-Type': 'application/json' },
-             body: JSON.stringify({ priceId, eventId })
+             body: JSON.stringify({ eventId, ...options })
         });
         const data = await response.json();
         if (data.error) throw new Error(data.error);
         return data.url;
+    },
+
+    // Square / PayPal return a URL to redirect to; manual payments return the pending booking
+    startPayment: async (
+        provider: 'square' | 'paypal' | 'manual',
+        eventId: string,
+        options: { ticketTypeId?: string, offerToken?: string, quantity?: number, attendees?: string[], promoCode?: string, customer: { name: string, email: string, phone?: string } }
+    ): Promise<{ url?: string, bookingId?: string, status?: string }> => {
+        const response = await fetch(`${API_URL}/payments/${provider}/checkout`, {
+             method: 'POST',
+             headers: { 'Content-Type': 'application/json' },
+             body: JSON.stringify({ eventId, ...options })
+        });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data;
+    },
+
+    // Free events: registers the visitor without any payment step
+    rsvp: async (
+        eventId: string,
+        options: { ticketTypeId?: string, offerToken?: string, quantity?: number, attendees?: string[], promoCode?: string, customer: { name: string, email: string, phone?: string } }
+    ): Promise<{ bookingId: string, status: string }> => {
+        const response = await fetch(`${API_URL}/events/${encodeURIComponent(eventId)}/rsvp`, {
+             method: 'POST',
+             headers: { 'Content-Type': 'application/json' },
+             body: JSON.stringify(options)
+        });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data;
+    },
+
+    // Checks a promo code for an event; throws with the reason when it can't be used
+    checkPromoCode: async (eventId: string, code: string): Promise<AppliedPromo> => {
+        const response = await fetch(`${API_URL}/events/${encodeURIComponent(eventId)}/promo-code`, {
+             method: 'POST',
+             headers: { 'Content-Type': 'application/json' },
+             body: JSON.stringify({ code })
+        });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data;
+    },
+
+    getTicket: async (code: string): Promise<TicketDetails> => {
+        const response = await fetch(`${API_URL}/tickets/${encodeURIComponent(code)}`);
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data;
+    },
+
+    ticketQrUrl: (code: string) => `${API_URL}/tickets/${encodeURIComponent(code)}/qr.png`,
+
+    calendarUrl: (eventId: string) => `${API_URL}/events/${encodeURIComponent(eventId)}/calendar.ics`,
+
+    // Feed of every published event. webcal:// makes calendar apps offer to subscribe rather than import once.
+    calendarFeedUrl: (scheme: 'https' | 'webcal' = 'https') => {
+        const url = new URL(`${API_URL}/calendar.ics`, window.location.origin).href;
+        return scheme === 'webcal' ? url.replace(/^https?:/, 'webcal:') : url;
+    },
+
+    // Emails a "manage my booking" link; succeeds whether or not the address has bookings
+    requestManageLink: async (email: string): Promise<void> => {
+        const response = await fetch(`${API_URL}/manage/link`, {
+             method: 'POST',
+             headers: { 'Content-Type': 'application/json' },
+             body: JSON.stringify({ email })
+        });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+    },
+
+    // The token comes from the magic link and covers every booking made with that email
+    getManagedBookings: async (token: string): Promise<ManageSession> => {
+        const response = await fetch(`${API_URL}/manage/${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data;
+    },
+
+    cancelManagedBooking: async (token: string, bookingId: string): Promise<ManagedBooking> => {
+        const response = await fetch(`${API_URL}/manage/${encodeURIComponent(token)}/bookings/${encodeURIComponent(bookingId)}/cancel`, {
+             method: 'POST',
+             headers: { 'Content-Type': 'application/json' }
+        });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data.booking;
+    },
+
+    // Puts one ticket in someone else's name; with an email, the new holder is sent the ticket
+    transferTicket: async (token: string, bookingId: string, ticketNumber: number, holder: { name: string, email?: string }): Promise<ManagedBooking> => {
+        const response = await fetch(`${API_URL}/manage/${encodeURIComponent(token)}/bookings/${encodeURIComponent(bookingId)}/transfer`, {
+             method: 'POST',
+             headers: { 'Content-Type': 'application/json' },
+             body: JSON.stringify({ ticketNumber, ...holder })
+        });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data.booking;
+    },
+
+    // Live capacity for a published event
+    getAvailability: async (eventId: string): Promise<Availability> => {
+        const response = await fetch(`${API_URL}/events/${encodeURIComponent(eventId)}/availability`);
+        if (!response.ok) throw new Error('Availability unavailable');
+        return await response.json();
+    },
+
+    // Sign-up counts for the event's agenda sessions
+    getSessionAvailability: async (eventId: string): Promise<SessionAvailability[]> => {
+        const response = await fetch(`${API_URL}/events/${encodeURIComponent(eventId)}/sessions`);
+        if (!response.ok) throw new Error('Sessions unavailable');
+        const data = await response.json();
+        return data.sessions || [];
+    },
+
+    // The ticket code (from the ticket page or confirmation email) identifies whose schedule it is
+    getTicketSchedule: async (code: string): Promise<TicketSchedule> => {
+        const response = await fetch(`${API_URL}/tickets/${encodeURIComponent(code)}/sessions`);
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data;
+    },
+
+    // Throws when the session is full or clashes with one already chosen
+    joinSession: async (code: string, sessionId: string): Promise<TicketSchedule> => {
+        const response = await fetch(`${API_URL}/tickets/${encodeURIComponent(code)}/sessions`, {
+             method: 'POST',
+             headers: { 'Content-Type': 'application/json' },
+             body: JSON.stringify({ sessionId })
+        });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data;
+    },
+
+    leaveSession: async (code: string, sessionId: string): Promise<TicketSchedule> => {
+        const response = await fetch(`${API_URL}/tickets/${encodeURIComponent(code)}/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data;
+    },
+
+    // Returns the visitor's position in line
+    joinWaitlist: async (eventId: string, name: string, email: string): Promise<number> => {
+        const response = await fetch(`${API_URL}/events/${encodeURIComponent(eventId)}/waitlist`, {
+             method: 'POST',
+             headers: { 'Content-Type': 'application/json' },
+             body: JSON.stringify({ name, email })
+        });
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data.position;
+    },
+
+    // Details of a seat offered to a waitlister (the token comes from their email link)
+    getWaitlistOffer: async (token: string): Promise<{ eventId: string, name: string, expiresAt: string }> => {
+        const response = await fetch(`${API_URL}/waitlist/offers/${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (data.error) throw new Error(data.error);
+        return data;
     }
 };
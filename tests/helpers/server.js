@@ -0,0 +1,131 @@
+// Runs the real server (server/index.js) as a child process against a scratch directory, so route
+// tests go through Express, the JSON stores and the email outbox exactly as in production.
+// Stripe, Square and PayPal are left unconfigured; unsigned webhooks are accepted outside production.
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const SERVER = path.join(path.dirname(fileURLToPath(import.meta.url)), '../../server/index.js');
+
+export const ADMIN_SECRET = 'test-admin-secret';
+export const TICKET_SECRET = 'test-ticket-secret';
+export const MAGIC_LINK_SECRET = 'test-magic-link-secret';
+
+// seed: { [store]: records } written to DATA_DIR before the server starts, e.g. { holds: [...] }
+export const startServer = async ({ seed = {}, env = {} } = {}) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eventforge-test-'));
+    const dataDir = path.join(dir, 'data');
+    fs.mkdirSync(dataDir);
+    for (const [name, records] of Object.entries(seed)) {
+        fs.writeFileSync(path.join(dataDir, `${name}.json`), JSON.stringify(records));
+    }
+
+    const port = 20000 + Math.floor(Math.random() * 20000);
+    // Run from the scratch directory so a developer's .env isn't picked up
+    const child = spawn(process.execPath, [SERVER], {
+        cwd: dir,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: {
+            PATH: process.env.PATH,
+            NODE_ENV: 'test',
+            PORT: String(port),
+            DATA_DIR: dataDir,
+            PUBLIC_DIR: path.join(dir, 'public'),
+            DIST_DIR: path.join(dir, 'dist'),
+            EMAIL_TRANSPORT: 'file',
+            ADMIN_SECRET,
+            TICKET_SECRET,
+            MAGIC_LINK_SECRET,
+            ...env
+        }
+    });
+
+    let output = '';
+    try {
+        await new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error(`Server didn't start:\n${output}`)), 10000);
+            const onData = (chunk) => {
+                output += chunk;
+                if (output.includes('running on port')) { clearTimeout(timer); resolve(); }
+            };
+            child.stdout.on('data', onData);
+            child.stderr.on('data', onData);
+            child.on('exit', code => { clearTimeout(timer); reject(new Error(`Server exited with ${code}:\n${output}`)); });
+        });
+    } catch (e) {
+        if (child.exitCode === null) child.kill();
+        fs.rmSync(dir, { recursive: true, force: true });
+        throw e;
+    }
+
+    const baseUrl = `http://127.0.0.1:${port}`;
+
+    // Resolves with { status, body }; body is parsed JSON where the response is JSON
+    const request = async (method, route, { body, admin = false, headers = {} } = {}) => {
+        const response = await fetch(`${baseUrl}${route}`, {
+            method,
+            redirect: 'manual',
+            headers: {
+                ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                ...(admin ? { 'Authorization': `Bearer ${ADMIN_SECRET}` } : {}),
+                ...headers
+            },
+            body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body)
+        });
+        const text = await response.text();
+        let parsed = text;
+        try { parsed = JSON.parse(text); } catch (e) { /* not JSON */ }
+        return { status: response.status, body: parsed, headers: response.headers };
+    };
+
+    const readStore = (name) => {
+        const file = path.join(dataDir, `${name}.json`);
+        return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+    };
+
+    // Emails written so far, oldest first: [{ to, subject, html }]
+    const outbox = () => {
+        const outboxDir = path.join(dataDir, 'outbox');
+        if (!fs.existsSync(outboxDir)) return [];
+        return fs.readdirSync(outboxDir).filter(f => f.endsWith('.html')).sort().map(file => {
+            const html = fs.readFileSync(path.join(outboxDir, file), 'utf8');
+            const header = (name) => html.match(new RegExp(`^${name}: (.*)$`, 'm'))?.[1];
+            return { to: header('To'), subject: header('Subject'), html };
+        });
+    };
+
+    const stop = async () => {
+        if (child.exitCode === null) {
+            child.removeAllListeners('exit');
+            const exited = new Promise(resolve => child.once('exit', resolve));
+            child.kill();
+            await exited;
+        }
+        fs.rmSync(dir, { recursive: true, force: true });
+    };
+
+    return { baseUrl, request, readStore, outbox, stop, dataDir, output: () => output };
+};
+
+// A published event with sensible defaults; pass overrides for what the test cares about
+export const testEvent = (overrides = {}) => ({
+    id: 'evt-1',
+    title: 'Full Moon Sound Bath',
+    description: 'An evening of rest.',
+    date: '2030-06-01T19:00',
+    endDate: '2030-06-01T21:00',
+    timezone: 'Europe/London',
+    location: 'The Studio',
+    status: 'published',
+    price: 0,
+    capacity: 10,
+    bookings: 0,
+    agenda: [],
+    tags: [],
+    ...overrides
+});
+
+export const publish = (server, events, settings = {}) =>
+    server.request('POST', '/api/publish', { admin: true, body: { events, settings: { paymentConfig: { currency: 'usd' }, ...settings } } });
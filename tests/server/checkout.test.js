@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { startServer, testEvent, publish } from '../helpers/server.js';
+
+const ada = { name: 'Ada Lovelace', email: 'Ada@Example.com' };
+const grace = { name: 'Grace Hopper', email: 'grace@example.com' };
+
+const minutesFromNow = (minutes) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+describe('checkout', () => {
+    let server;
+    afterEach(async () => { await server?.stop(); });
+
+    const setUp = async (events, { seed, settings } = {}) => {
+        server = await startServer({ seed });
+        await publish(server, events, settings);
+    };
+    const rsvp = (body, eventId = 'evt-1') => server.request('POST', `/api/events/${eventId}/rsvp`, { body });
+    const manualCheckout = (body) => server.request('POST', '/api/payments/manual/checkout', { body: { eventId: 'evt-1', ...body } });
+    const availability = async (eventId = 'evt-1') => (await server.request('GET', `/api/events/${eventId}/availability`)).body;
+
+    describe('RSVPs', () => {
+        it('take a seat per ticket, once per email', async () => {
+            await setUp([testEvent({ capacity: 5 })]);
+
+            const first = await rsvp({ customer: ada, quantity: 2, attendees: ['Ada', ' Charles '] });
+            expect(first.body.status).toBe('confirmed');
+            expect((await rsvp({ customer: { ...ada, email: 'ada@example.com' } })).body.bookingId).toBe(first.body.bookingId);
+
+            expect(server.readStore('bookings')).toEqual([expect.objectContaining({
+                customerEmail: 'ada@example.com', quantity: 2, attendees: ['Ada', 'Charles'], provider: 'rsvp'
+            })]);
+            expect(await availability()).toMatchObject({ booked: 2, remaining: 3, soldOut: false });
+            expect(server.outbox().map(m => m.subject)).toEqual(['Booking Confirmed: Full Moon Sound Bath']);
+        });
+
+        it('stop at capacity', async () => {
+            await setUp([testEvent({ capacity: 3 })]);
+
+            expect(await rsvp({ customer: grace, quantity: 2 })).toMatchObject({ status: 200 });
+            expect(await rsvp({ customer: ada, quantity: 2 })).toMatchObject({ status: 409, body: { error: 'Only 1 spot left' } });
+            expect(await rsvp({ customer: ada })).toMatchObject({ status: 200 });
+            expect(await rsvp({ customer: { name: 'Mary', email: 'mary@example.com' } })).toMatchObject({ status: 409, body: { error: 'This event is sold out' } });
+            expect(await availability()).toMatchObject({ booked: 3, remaining: 0, soldOut: true });
+        });
+
+        it('refuse paid events', async () => {
+            await setUp([testEvent({ price: 20 })]);
+            expect(await rsvp({ customer: ada })).toMatchObject({ status: 402 });
+        });
+
+        it('reject customer details that aren\'t strings', async () => {
+            await setUp([testEvent()]);
+            for (const customer of [undefined, { name: ['Ada'], email: 'ada@example.com' }, { name: 'Ada', email: { $ne: '' } }, { name: ' ', email: 'ada@example.com' }]) {
+                expect(await rsvp({ customer })).toMatchObject({ status: 400, body: { error: 'Name and email are required' } });
+            }
+            expect(server.readStore('bookings')).toEqual([]);
+        });
+
+        it('limit group size', async () => {
+            await setUp([testEvent({ capacity: 50 })]);
+            expect(await rsvp({ customer: ada, quantity: 11 })).toMatchObject({ status: 400 });
+            expect(await rsvp({ customer: ada, quantity: 0 })).toMatchObject({ status: 400 });
+            expect(await rsvp({ customer: ada, quantity: '2' })).toMatchObject({ status: 400 });
+        });
+    });
+
+    describe('seat holds', () => {
+        it('count against availability until they expire', async () => {
+            await setUp([testEvent({ capacity: 3 })], {
+                seed: {
+                    holds: [
+                        { id: 'hold-live', eventId: 'evt-1', quantity: 2, expiresAt: minutesFromNow(20) },
+                        { id: 'hold-lapsed', eventId: 'evt-1', quantity: 1, expiresAt: minutesFromNow(-1) }
+                    ]
+                }
+            });
+
+            expect(await availability()).toMatchObject({ held: 2, remaining: 1 });
+            expect(server.readStore('holds').map(h => h.id)).toEqual(['hold-live']);
+            expect(await rsvp({ customer: ada, quantity: 2 })).toMatchObject({ status: 409, body: { error: 'Only 1 spot left' } });
+            expect(await rsvp({ customer: ada })).toMatchObject({ status: 200 });
+            expect(await rsvp({ customer: grace })).toMatchObject({ status: 409, body: { error: 'This event is sold out' } });
+        });
+
+        it('on a tier only block that tier', async () => {
+            const tiers = [{ id: 'early', name: 'Early Bird', price: 0, quantity: 2 }, { id: 'standard', name: 'Standard', price: 0, quantity: 10 }];
+            await setUp([testEvent({ capacity: 10, ticketTypes: tiers })], {
+                seed: { holds: [{ id: 'hold-1', eventId: 'evt-1', ticketTypeId: 'early', quantity: 2, expiresAt: minutesFromNow(20) }] }
+            });
+
+            expect(await rsvp({ customer: ada, ticketTypeId: 'early' })).toMatchObject({ status: 409, body: { error: 'Early Bird tickets are sold out' } });
+            expect(await rsvp({ customer: ada })).toMatchObject({ status: 400, body: { error: 'Please choose a ticket type' } });
+            expect(await rsvp({ customer: ada, ticketTypeId: 'standard' })).toMatchObject({ status: 200 });
+            expect((await availability()).ticketTypes).toEqual([
+                expect.objectContaining({ id: 'early', remaining: 0, soldOut: true }),
+                expect.objectContaining({ id: 'standard', remaining: 7 })
+            ]);
+        });
+    });
+
+    describe('tiers', () => {
+        it('are only sold during their sales window', async () => {
+            const tiers = [{ id: 'later', name: 'Late', price: 0, quantity: 5, salesStart: '2099-01-01T00:00:00Z' }];
+            await setUp([testEvent({ ticketTypes: tiers })]);
+            expect(await rsvp({ customer: ada, ticketTypeId: 'later' })).toMatchObject({ status: 409, body: { error: 'Late tickets are not on sale' } });
+        });
+    });
+
+    describe('manual payment', () => {
+        it('reserves the seats and emails how to pay', async () => {
+            await setUp([testEvent({ price: 20, capacity: 2 })], { settings: { paymentConfig: { currency: 'gbp', instructions: 'Bank transfer to 12-34-56.' } } });
+
+            const response = await manualCheckout({ customer: ada, quantity: 2 });
+            expect(response.body.status).toBe('pending');
+            expect(server.readStore('bookings')[0]).toMatchObject({ amount: 40, currency: 'gbp', provider: 'manual', status: 'pending' });
+            expect(await availability()).toMatchObject({ soldOut: true });
+
+            const [email] = server.outbox();
+            expect(email).toMatchObject({ to: 'ada@example.com', subject: 'Your spot is reserved: Full Moon Sound Bath' });
+            expect(email.html).toContain('£40.00');
+            expect(email.html).toContain('Bank transfer to 12-34-56.');
+        });
+
+        it('rejects customer details that aren\'t strings', async () => {
+            await setUp([testEvent({ price: 20 })]);
+            expect(await manualCheckout({ customer: { name: 42, email: 'ada@example.com' } })).toMatchObject({ status: 400 });
+        });
+    });
+
+    it('is unavailable through Stripe when Stripe isn\'t configured', async () => {
+        await setUp([testEvent({ price: 20 })]);
+        expect(await server.request('POST', '/api/checkout', { body: { eventId: 'evt-1' } })).toMatchObject({ status: 400, body: { error: 'Checkout unavailable' } });
+        expect(await server.request('POST', '/api/payments/square/checkout', { body: { eventId: 'evt-1', customer: ada } })).toMatchObject({ status: 400 });
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeCurrency, toMinorUnits, fromMinorUnits, roundAmount, formatDecimalAmount, formatMoney } from '../../server/currency.js';
+
+describe('toMinorUnits', () => {
+    it('uses cents for two-decimal currencies', () => {
+        expect(toMinorUnits(20, 'usd')).toBe(2000);
+        expect(toMinorUnits(19.99, 'EUR')).toBe(1999);
+    });
+
+    it('leaves zero-decimal currencies whole', () => {
+        expect(toMinorUnits(1500, 'jpy')).toBe(1500);
+        expect(toMinorUnits(185.175, 'jpy')).toBe(185);
+    });
+
+    it('rounds three-decimal currencies to the nearest ten, as Stripe requires', () => {
+        expect(toMinorUnits(1.5, 'kwd')).toBe(1500);
+        expect(toMinorUnits(1.23456, 'kwd')).toBe(1240);
+        expect(toMinorUnits(1.234, 'bhd')).toBe(1230);
+    });
+
+    it('defaults to usd', () => {
+        expect(normalizeCurrency(undefined)).toBe('usd');
+        expect(toMinorUnits(2.5)).toBe(250);
+    });
+});
+
+describe('fromMinorUnits', () => {
+    it('reverses toMinorUnits', () => {
+        expect(fromMinorUnits(1999, 'usd')).toBe(19.99);
+        expect(fromMinorUnits(1500, 'JPY')).toBe(1500);
+        expect(fromMinorUnits(1240, 'kwd')).toBe(1.24);
+    });
+});
+
+describe('roundAmount', () => {
+    it('rounds to what the currency can charge', () => {
+        expect(roundAmount(2.9985, 'usd')).toBe(3);
+        expect(roundAmount(10 / 3, 'usd')).toBe(3.33);
+        expect(roundAmount(185.175, 'jpy')).toBe(185);
+        expect(roundAmount(1.23456, 'kwd')).toBe(1.24);
+    });
+});
+
+describe('formatDecimalAmount', () => {
+    it('writes the currency\'s own number of decimals', () => {
+        expect(formatDecimalAmount(20, 'usd')).toBe('20.00');
+        expect(formatDecimalAmount(1500, 'jpy')).toBe('1500');
+        expect(formatDecimalAmount(1.5, 'kwd')).toBe('1.500');
+    });
+});
+
+describe('formatMoney', () => {
+    it('formats known currencies', () => {
+        expect(formatMoney(20, 'usd')).toBe('$20.00');
+        expect(formatMoney(1500, 'jpy')).toBe('¥1,500');
+    });
+
+    it('falls back to the code for unknown currencies', () => {
+        expect(formatMoney(5, 'zzzz')).toBe('5 ZZZZ');
+    });
+});
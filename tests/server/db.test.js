@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// db.js picks its directory up at import, so point it at a scratch one first
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eventforge-db-'));
+let collection;
+
+beforeAll(async () => {
+    process.env.DATA_DIR = dataDir;
+    ({ collection } = await import('../../server/db.js'));
+});
+
+afterAll(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+// The store logs why it refused a file; keep that out of the test output
+const quietErrors = () => vi.spyOn(console, 'error').mockImplementation(() => {});
+
+describe('collection', () => {
+    it('stores, updates and removes records', () => {
+        const things = collection('things');
+        things.insert({ id: 'a', n: 1 });
+        things.insert({ id: 'b', n: 2 });
+
+        expect(things.update('a', { n: 5 })).toEqual({ id: 'a', n: 5 });
+        expect(things.update('missing', { n: 1 })).toBeNull();
+        expect(things.find(t => t.n > 1).map(t => t.id)).toEqual(['a', 'b']);
+        expect(things.remove('b')).toBe(true);
+        expect(things.removeWhere(() => true)).toBe(1);
+        expect(things.all()).toEqual([]);
+    });
+
+    it('treats a missing store as empty', () => {
+        expect(collection('never-written').all()).toEqual([]);
+    });
+
+    it('refuses to read or overwrite a store that does not parse', () => {
+        const file = path.join(dataDir, 'ledger.json');
+        fs.writeFileSync(file, '[{"id":"b1"');
+        const errors = quietErrors();
+        const ledger = collection('ledger');
+
+        expect(() => ledger.all()).toThrow(/unreadable/);
+        expect(() => ledger.insert({ id: 'b2' })).toThrow(/unreadable/);
+        expect(fs.readFileSync(file, 'utf8')).toBe('[{"id":"b1"');
+        errors.mockRestore();
+    });
+
+    it('refuses a store that is not a list', () => {
+        fs.writeFileSync(path.join(dataDir, 'odd.json'), '{"id":"x"}');
+        const errors = quietErrors();
+        expect(() => collection('odd').all()).toThrow(/not a list/);
+        errors.mockRestore();
+    });
+});
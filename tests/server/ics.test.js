@@ -0,0 +1,104 @@
+import { describe, it, expect, afterAll, beforeAll } from 'vitest';
+import { buildCalendar } from '../../server/ics.js';
+import { startServer, testEvent, publish } from '../helpers/server.js';
+
+const options = { settings: { timezone: 'America/New_York' }, urlFor: (e) => `https://example.com/#/event/${e.id}`, uidDomain: 'example.com' };
+
+const event = {
+    id: 'evt-1',
+    title: 'Sound Bath; Full Moon, Edition',
+    description: 'Bring a mat.\nDoors at 6.',
+    location: 'The Studio, Room 2',
+    date: '2030-06-01T19:00',
+    endDate: '2030-06-01T21:00',
+    timezone: 'Europe/London',
+    tags: ['wellness', 'sound']
+};
+
+// Undo line folding so assertions can look at whole content lines
+const unfold = (ics) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('buildCalendar', () => {
+    it('writes times on the event\'s clock with a matching VTIMEZONE', () => {
+        const lines = unfold(buildCalendar([event], options));
+        expect(lines).toContain('DTSTART;TZID=Europe/London:20300601T190000');
+        expect(lines).toContain('DTEND;TZID=Europe/London:20300601T210000');
+
+        const zone = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+        expect(zone).toContain('TZID:Europe/London');
+        expect(zone.join('\n')).toContain('BEGIN:DAYLIGHT\nDTSTART:20300331T010000\nTZOFFSETFROM:+0000\nTZOFFSETTO:+0100\nEND:DAYLIGHT');
+        expect(zone.join('\n')).toContain('BEGIN:STANDARD\nDTSTART:20301027T020000\nTZOFFSETFROM:+0100\nTZOFFSETTO:+0000\nEND:STANDARD');
+    });
+
+    it('adds one VTIMEZONE per zone in use', () => {
+        const ics = buildCalendar([event, { ...event, id: 'evt-2' }, { ...event, id: 'evt-3', timezone: undefined }], options);
+        expect(ics.match(/BEGIN:VTIMEZONE/g)).toHaveLength(2);
+        expect(unfold(ics)).toContain('DTSTART;TZID=America/New_York:20300601T190000');
+    });
+
+    it('escapes text values', () => {
+        const lines = unfold(buildCalendar([event], options));
+        expect(lines).toContain('SUMMARY:Sound Bath\\; Full Moon\\, Edition');
+        expect(lines).toContain('LOCATION:The Studio\\, Room 2');
+        expect(lines).toContain('DESCRIPTION:Bring a mat.\\nDoors at 6.\\n\\nhttps://example.com/#/event/evt-1');
+        expect(lines).toContain('CATEGORIES:wellness,sound');
+    });
+
+    it('folds content lines at 75 octets without splitting characters', () => {
+        const ics = buildCalendar([{ ...event, description: 'Ωμ '.repeat(60) }], options);
+        const physical = ics.split('\r\n');
+        expect(physical.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+        expect(physical.some(line => line.startsWith(' '))).toBe(true);
+        expect(ics).not.toContain('�');
+        expect(unfold(ics).find(line => line.startsWith('DESCRIPTION:'))).toContain('Ωμ Ωμ Ωμ');
+    });
+
+    it('names and refreshes subscribed feeds only', () => {
+        expect(buildCalendar([event], options)).not.toContain('X-WR-CALNAME');
+        const lines = unfold(buildCalendar([event], { ...options, name: 'Studio Events', refreshHours: 1 }));
+        expect(lines).toContain('X-WR-CALNAME:Studio Events');
+        expect(lines).toContain('X-WR-TIMEZONE:America/New_York');
+        expect(lines).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT1H');
+    });
+
+    it('writes events with an unknown zone in the studio\'s zone', () => {
+        const lines = unfold(buildCalendar([{ ...event, timezone: 'Mars/Olympus' }], options));
+        expect(lines).toContain('DTSTART;TZID=America/New_York:20300601T190000');
+        expect(lines).toContain('TZID:America/New_York');
+        expect(lines.join('\n')).not.toContain('Mars/Olympus');
+    });
+
+    it('leaves out events without a readable date', () => {
+        const ics = buildCalendar([event, { ...event, id: 'evt-tbc', date: 'TBC' }], options);
+        expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    });
+});
+
+describe('calendar routes', () => {
+    let server;
+    beforeAll(async () => {
+        server = await startServer();
+        await publish(server, [testEvent(), testEvent({ id: 'evt-draft', status: 'draft' })]);
+    });
+    afterAll(async () => { await server.stop(); });
+
+    it('serves one event as a download', async () => {
+        const response = await server.request('GET', '/api/events/evt-1/calendar.ics');
+        expect(response.headers.get('content-type')).toMatch(/^text\/calendar/);
+        expect(response.body).toContain('UID:evt-1@');
+        expect((await server.request('GET', '/api/events/nope/calendar.ics')).status).toBe(404);
+    });
+
+    it('refuses to publish an unknown time zone', async () => {
+        const response = await publish(server, [testEvent({ timezone: 'Mars/Olympus' })]);
+        expect(response).toMatchObject({ status: 400, body: { error: '"Full Moon Sound Bath" has an unknown time zone: Mars/Olympus' } });
+        expect((await publish(server, [testEvent()], { timezone: 'Mars/Olympus' })).status).toBe(400);
+        expect((await server.request('GET', '/api/events/evt-draft/calendar.ics')).status).toBe(200);
+    });
+
+    it('only lists published events in the feed', async () => {
+        const response = await server.request('GET', '/calendar.ics');
+        expect(response.body.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+        expect(response.body).not.toContain('evt-draft');
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { manageToken, verifyManageToken } from '../../server/magicLinks.js';
+import { ticketCode } from '../../server/tickets.js';
+import { startServer, testEvent, publish, MAGIC_LINK_SECRET, TICKET_SECRET } from '../helpers/server.js';
+
+// Sign with the same secrets as the test server, so links and codes minted here work there
+process.env.MAGIC_LINK_SECRET = MAGIC_LINK_SECRET;
+process.env.TICKET_SECRET = TICKET_SECRET;
+
+const inAnHour = () => Date.now() + 60 * 60 * 1000;
+
+describe('manage tokens', () => {
+    it('open the bookings of the email they were issued for', () => {
+        expect(verifyManageToken(manageToken(' Ada@Example.com ', inAnHour()))).toBe('ada@example.com');
+    });
+
+    it('stop working once they expire', () => {
+        expect(verifyManageToken(manageToken('ada@example.com', Date.now() - 1000))).toBeNull();
+    });
+
+    it('reject a token whose email or expiry was edited', () => {
+        const [, expiry, signature] = manageToken('ada@example.com', inAnHour()).split('.');
+        const otherEmail = Buffer.from('grace@example.com').toString('base64url');
+        expect(verifyManageToken(`${otherEmail}.${expiry}.${signature}`)).toBeNull();
+
+        const [email] = manageToken('ada@example.com', inAnHour()).split('.');
+        expect(verifyManageToken(`${email}.${Number(expiry) + 365 * 24 * 60 * 60 * 1000}.${signature}`)).toBeNull();
+    });
+
+    it('reject tokens signed with another secret', () => {
+        process.env.MAGIC_LINK_SECRET = 'another-secret';
+        const token = manageToken('ada@example.com', inAnHour());
+        process.env.MAGIC_LINK_SECRET = MAGIC_LINK_SECRET;
+        expect(verifyManageToken(token)).toBeNull();
+    });
+
+    it('reject mangled tokens', () => {
+        expect(verifyManageToken(undefined)).toBeNull();
+        expect(verifyManageToken('abc')).toBeNull();
+        expect(verifyManageToken(manageToken('ada@example.com', inAnHour()).slice(0, -2))).toBeNull();
+    });
+});
+
+const booking = (overrides) => ({
+    eventId: 'evt-1',
+    customerName: 'Ada Lovelace',
+    customerEmail: 'ada@example.com',
+    quantity: 2,
+    amount: 0,
+    status: 'confirmed',
+    createdAt: '2030-01-01T00:00:00.000Z',
+    ...overrides
+});
+
+describe('manage routes', () => {
+    let server;
+    beforeAll(async () => {
+        server = await startServer({
+            seed: { bookings: [booking({ id: 'bk-ada' }), booking({ id: 'bk-grace', customerName: 'Grace Hopper', customerEmail: 'grace@example.com' })] }
+        });
+        await publish(server, [testEvent()]);
+    });
+    afterAll(async () => { await server.stop(); });
+
+    const adaToken = () => manageToken('ada@example.com', inAnHour());
+
+    it('lists only the bookings made with the link\'s email', async () => {
+        const response = await server.request('GET', `/api/manage/${adaToken()}`);
+        expect(response.status).toBe(200);
+        expect(response.body.bookings.map(b => b.id)).toEqual(['bk-ada']);
+    });
+
+    it('turns away expired links', async () => {
+        const response = await server.request('GET', `/api/manage/${manageToken('ada@example.com', Date.now() - 1000)}`);
+        expect(response.status).toBe(401);
+    });
+
+    it('won\'t touch someone else\'s booking', async () => {
+        const response = await server.request('POST', `/api/manage/${adaToken()}/bookings/bk-grace/cancel`);
+        expect(response.status).toBe(404);
+        expect(server.readStore('bookings').find(b => b.id === 'bk-grace').status).toBe('confirmed');
+    });
+
+    it('transfers a ticket under a new code and emails the new holder without the buyer\'s link', async () => {
+        const oldCode = ticketCode('bk-ada', 2);
+        const response = await server.request('POST', `/api/manage/${adaToken()}/bookings/bk-ada/transfer`, {
+            body: { ticketNumber: 2, name: 'Mary Somerville', email: 'Mary@example.com' }
+        });
+        expect(response.status).toBe(200);
+
+        const newCode = ticketCode('bk-ada', 2, 1);
+        expect(response.body.booking.tickets[1]).toMatchObject({ code: newCode, holderName: 'Mary Somerville' });
+        expect((await server.request('GET', `/api/tickets/${oldCode}`)).status).toBe(404);
+        expect((await server.request('GET', `/api/tickets/${newCode}`)).body.holderName).toBe('Mary Somerville');
+        expect((await server.request('GET', `/api/tickets/${ticketCode('bk-ada', 1)}`)).status).toBe(200);
+
+        const email = server.outbox().find(message => message.to === 'Mary@example.com');
+        expect(email.html).toContain(newCode);
+        expect(email.html).not.toContain('/manage/');
+        expect(server.readStore('bookings').find(b => b.id === 'bk-ada').holderEmails).toEqual(['', 'mary@example.com']);
+    });
+
+    it('tells the holder of a transferred ticket when the buyer cancels', async () => {
+        const response = await server.request('POST', `/api/manage/${adaToken()}/bookings/bk-ada/cancel`);
+        expect(response.body.booking).toMatchObject({ status: 'cancelled', tickets: [] });
+        expect((await server.request('GET', `/api/tickets/${ticketCode('bk-ada', 2, 1)}`)).body.status).toBe('cancelled');
+
+        const toHolder = server.outbox().filter(message => message.to === 'mary@example.com');
+        expect(toHolder).toHaveLength(1);
+        expect(toHolder[0].html).toContain('Ada Lovelace passed this ticket on to you');
+        expect(toHolder[0].html).not.toContain('/manage/');
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { startServer, testEvent, publish } from '../helpers/server.js';
+
+const customer = { name: 'Ada Lovelace', email: 'ada@example.com' };
+
+describe('promo codes at checkout', () => {
+    let server;
+    beforeEach(async () => { server = await startServer(); });
+    afterEach(async () => { await server.stop(); });
+
+    const createPromo = (body) => server.request('POST', '/api/promo-codes', { admin: true, body });
+    const checkout = (body) => server.request('POST', '/api/payments/manual/checkout', { body: { eventId: 'evt-1', customer, ...body } });
+
+    it('rounds a percentage discount to the currency', async () => {
+        await publish(server, [testEvent({ price: 1235 })], { paymentConfig: { currency: 'jpy' } });
+        await createPromo({ code: 'save15', type: 'percent', value: 15 });
+
+        const response = await checkout({ promoCode: 'SAVE15' });
+        expect(response.status).toBe(200);
+
+        const [booking] = server.readStore('bookings');
+        expect(booking).toMatchObject({ promoCode: 'SAVE15', discount: 185, amount: 1050, currency: 'jpy', status: 'pending' });
+    });
+
+    it('rounds three-decimal currencies to the nearest ten minor units', async () => {
+        await publish(server, [testEvent({ price: 8.235 })], { paymentConfig: { currency: 'kwd' } });
+        await createPromo({ code: 'SAVE15', type: 'percent', value: 15 });
+
+        await checkout({ promoCode: 'SAVE15' });
+        const [booking] = server.readStore('bookings');
+        expect(booking).toMatchObject({ discount: 1.24, amount: 7 });
+    });
+
+    it('confirms an order the code makes free without asking for payment', async () => {
+        await publish(server, [testEvent({ price: 20 })]);
+        await createPromo({ code: 'COMP', type: 'fixed', value: 50 });
+
+        const response = await checkout({ promoCode: 'COMP' });
+        expect(response.body.status).toBe('confirmed');
+        expect(server.readStore('bookings')[0]).toMatchObject({ discount: 20, amount: 0 });
+    });
+
+    it('stops accepting a code once it is fully redeemed', async () => {
+        await publish(server, [testEvent({ price: 20 })]);
+        await createPromo({ code: 'ONCE', type: 'percent', value: 50, maxRedemptions: 1 });
+
+        expect((await checkout({ promoCode: 'ONCE' })).status).toBe(200);
+        const second = await checkout({ promoCode: 'ONCE', customer: { name: 'Grace', email: 'grace@example.com' } });
+        expect(second).toMatchObject({ status: 400, body: { error: 'This promo code has been fully redeemed' } });
+    });
+
+    it('rejects codes for another event', async () => {
+        await publish(server, [testEvent({ price: 20 }), testEvent({ id: 'evt-2', price: 20 })]);
+        await createPromo({ code: 'OTHER', type: 'percent', value: 10, eventId: 'evt-2' });
+
+        expect((await checkout({ promoCode: 'OTHER' })).body.error).toBe('This promo code is not valid for this event');
+    });
+});
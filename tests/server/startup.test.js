@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { startServer } from '../helpers/server.js';
+
+describe('server startup', () => {
+    for (const name of ['ADMIN_SECRET', 'TICKET_SECRET', 'MAGIC_LINK_SECRET']) {
+        it(`refuses to start without ${name}`, async () => {
+            await expect(startServer({ env: { [name]: '' } })).rejects.toThrow(new RegExp(`Missing required environment variables: ${name}`));
+        });
+    }
+
+    it('only lets the admin secret into admin routes', async () => {
+        const server = await startServer();
+        try {
+            expect((await server.request('GET', '/api/bookings')).status).toBe(401);
+            expect((await server.request('GET', '/api/bookings', { headers: { Authorization: 'Bearer secret' } })).status).toBe(401);
+            expect((await server.request('GET', '/api/bookings', { admin: true })).body).toEqual({ bookings: [] });
+        } finally {
+            await server.stop();
+        }
+    });
+});
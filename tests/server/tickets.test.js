@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { ticketCode, ticketCodes, parseTicketCode, isTicketCodeFor } from '../../server/tickets.js';
+import { startServer, testEvent, publish, TICKET_SECRET } from '../helpers/server.js';
+
+const booking = { id: 'bk-1', quantity: 3 };
+
+const seededBooking = {
+    id: 'bk-1',
+    eventId: 'evt-1',
+    customerName: 'Ada Lovelace',
+    customerEmail: 'ada@example.com',
+    quantity: 2,
+    attendees: ['', 'Grace Hopper'],
+    status: 'confirmed',
+    createdAt: '2030-01-01T00:00:00.000Z'
+};
+
+// Sign with the same secret as the test server, so codes minted here verify there
+process.env.TICKET_SECRET = TICKET_SECRET;
+
+describe('ticket codes', () => {
+    it('issues one code per seat that verifies against its booking', () => {
+        const codes = ticketCodes(booking);
+        expect(codes).toHaveLength(3);
+        expect(new Set(codes).size).toBe(3);
+        codes.forEach((code, i) => {
+            expect(parseTicketCode(code)).toEqual({ bookingId: 'bk-1', ticketNumber: i + 1 });
+            expect(isTicketCodeFor(code, booking)).toBe(true);
+        });
+    });
+
+    it('tolerates surrounding whitespace from scanners', () => {
+        expect(isTicketCodeFor(` ${ticketCode('bk-1', 1)}\n`, booking)).toBe(true);
+    });
+
+    it('rejects forged and mangled codes', () => {
+        const [code] = ticketCodes(booking);
+        const signature = code.split('.')[2];
+        const flipped = signature[0] === 'A' ? `B${signature.slice(1)}` : `A${signature.slice(1)}`;
+
+        expect(isTicketCodeFor(`bk-1.1.${flipped}`, booking)).toBe(false);
+        expect(isTicketCodeFor(`bk-1.2.${signature}`, booking)).toBe(false);
+        expect(isTicketCodeFor(`bk-1.1.${signature.slice(0, -1)}`, booking)).toBe(false);
+        expect(isTicketCodeFor('bk-1.1', booking)).toBe(false);
+        expect(parseTicketCode('not a code')).toBeNull();
+    });
+
+    it('rejects codes for another booking or a seat it does not have', () => {
+        expect(isTicketCodeFor(ticketCode('bk-1', 1), { id: 'bk-2', quantity: 3 })).toBe(false);
+        expect(isTicketCodeFor(ticketCode('bk-1', 4), booking)).toBe(false);
+        expect(isTicketCodeFor(ticketCode('bk-1', 0), booking)).toBe(false);
+    });
+
+    it('voids the old code when a transfer bumps the revision', () => {
+        const before = ticketCodes(booking);
+        const transferred = { ...booking, ticketRevisions: [0, 1, 0] };
+        const after = ticketCodes(transferred);
+
+        expect(after[0]).toBe(before[0]);
+        expect(after[1]).not.toBe(before[1]);
+        expect(isTicketCodeFor(before[1], transferred)).toBe(false);
+        expect(isTicketCodeFor(after[1], transferred)).toBe(true);
+        expect(after[1]).toBe(ticketCode('bk-1', 2, 1));
+    });
+
+    it('is signed with TICKET_SECRET', () => {
+        const code = ticketCode('bk-1', 1);
+        process.env.TICKET_SECRET = 'rotated';
+        try {
+            expect(isTicketCodeFor(code, booking)).toBe(false);
+        } finally {
+            process.env.TICKET_SECRET = TICKET_SECRET;
+        }
+    });
+
+    it('refuses to sign without a secret', () => {
+        delete process.env.TICKET_SECRET;
+        try {
+            expect(() => ticketCode('bk-1', 1)).toThrow('TICKET_SECRET is not set');
+        } finally {
+            process.env.TICKET_SECRET = TICKET_SECRET;
+        }
+    });
+});
+
+describe('GET /api/tickets/:code', () => {
+    let server;
+    beforeAll(async () => {
+        server = await startServer({ seed: { bookings: [seededBooking] } });
+        await publish(server, [testEvent()]);
+    });
+    afterAll(async () => { await server.stop(); });
+
+    it('shows the holder of a genuine ticket', async () => {
+        const response = await server.request('GET', `/api/tickets/${ticketCode('bk-1', 2)}`);
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({ ticketNumber: 2, ticketCount: 2, holderName: 'Grace Hopper', status: 'confirmed' });
+    });
+
+    it('does not find forged tickets', async () => {
+        process.env.TICKET_SECRET = 'not-the-server-secret';
+        try {
+            expect((await server.request('GET', `/api/tickets/${ticketCode('bk-1', 1)}`)).status).toBe(404);
+        } finally {
+            process.env.TICKET_SECRET = TICKET_SECRET;
+        }
+    });
+});
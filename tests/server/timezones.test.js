@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { isValidTimezone, studioTimezone, eventTimezone, zoneOffsetMinutes, parseWallTime, eventStart, eventEnd, formatEventSchedule, toWallTime, offsetTransitions } from '../../server/timezones.js';
+
+describe('parseWallTime', () => {
+    it('reads wall-clock times on the zone\'s clock', () => {
+        expect(parseWallTime('2030-06-01T19:00', 'Europe/London').toISOString()).toBe('2030-06-01T18:00:00.000Z');
+        expect(parseWallTime('2030-01-15T19:00', 'Europe/London').toISOString()).toBe('2030-01-15T19:00:00.000Z');
+        expect(parseWallTime('2030-06-01T09:30', 'Asia/Kolkata').toISOString()).toBe('2030-06-01T04:00:00.000Z');
+    });
+
+    it('uses the offset in force on each side of a DST change', () => {
+        expect(parseWallTime('2030-03-09T12:00', 'America/New_York').toISOString()).toBe('2030-03-09T17:00:00.000Z');
+        expect(parseWallTime('2030-03-11T12:00', 'America/New_York').toISOString()).toBe('2030-03-11T16:00:00.000Z');
+    });
+
+    it('treats strings with an offset as instants', () => {
+        expect(parseWallTime('2030-06-01T19:00Z', 'Asia/Tokyo').toISOString()).toBe('2030-06-01T19:00:00.000Z');
+        expect(parseWallTime('2030-06-01T19:00+02:00', 'Asia/Tokyo').toISOString()).toBe('2030-06-01T17:00:00.000Z');
+    });
+
+    it('reads a bare date as midnight', () => {
+        expect(parseWallTime('2030-06-01', 'Europe/Paris').toISOString()).toBe('2030-05-31T22:00:00.000Z');
+    });
+});
+
+describe('zoneOffsetMinutes and toWallTime', () => {
+    it('agree with each other', () => {
+        const instant = new Date('2030-06-01T18:00:00Z');
+        expect(zoneOffsetMinutes('Europe/London', instant)).toBe(60);
+        expect(zoneOffsetMinutes('America/Los_Angeles', instant)).toBe(-420);
+        expect(toWallTime(instant, 'America/Los_Angeles')).toEqual({ year: 2030, month: 6, day: 1, hour: 11, minute: 0, second: 0 });
+    });
+});
+
+describe('offsetTransitions', () => {
+    it('finds each change to the minute', () => {
+        expect(offsetTransitions('Europe/London', 2030, 2030)).toEqual([
+            { at: new Date('2030-03-31T01:00:00Z'), from: 0, to: 60 },
+            { at: new Date('2030-10-27T01:00:00Z'), from: 60, to: 0 }
+        ]);
+    });
+
+    it('finds none in zones without DST', () => {
+        expect(offsetTransitions('Asia/Kolkata', 2030, 2031)).toEqual([]);
+    });
+});
+
+describe('event times', () => {
+    const event = { date: '2030-06-01T19:00', timezone: 'Europe/London' };
+
+    it('prefers the event\'s own zone to the studio\'s', () => {
+        expect(eventStart(event, { timezone: 'America/New_York' }).toISOString()).toBe('2030-06-01T18:00:00.000Z');
+        expect(eventStart({ date: event.date }, { timezone: 'America/New_York' }).toISOString()).toBe('2030-06-01T23:00:00.000Z');
+    });
+
+    it('runs two hours when there is no end time', () => {
+        expect(eventEnd(event).toISOString()).toBe('2030-06-01T20:00:00.000Z');
+        expect(eventEnd({ ...event, endDate: '2030-06-01T22:30' }).toISOString()).toBe('2030-06-01T21:30:00.000Z');
+    });
+
+    it('formats the schedule on the event\'s clock', () => {
+        expect(formatEventSchedule({ ...event, endDate: '2030-06-01T21:00' }, { timezone: 'Asia/Tokyo' }))
+            .toMatch(/^Saturday, June 1, 2030, 7:00\s*–\s*9:00\sPM GMT\+1$/);
+    });
+
+    it('falls back to the raw value for dates it can\'t read', () => {
+        expect(formatEventSchedule({ date: 'sometime soon', timezone: 'Europe/London' })).toBe('sometime soon');
+    });
+});
+
+describe('unknown zones', () => {
+    it('are recognised', () => {
+        expect(isValidTimezone('Europe/London')).toBe(true);
+        expect(isValidTimezone('Mars/Olympus')).toBe(false);
+        expect(isValidTimezone('')).toBe(false);
+        expect(isValidTimezone(42)).toBe(false);
+    });
+
+    it('on an event fall back to the studio\'s zone', () => {
+        const settings = { timezone: 'America/New_York' };
+        expect(eventTimezone({ timezone: 'Mars/Olympus' }, settings)).toBe('America/New_York');
+        expect(eventStart({ date: '2030-06-01T19:00', timezone: 'Mars/Olympus' }, settings).toISOString()).toBe('2030-06-01T23:00:00.000Z');
+        expect(formatEventSchedule({ date: '2030-06-01T19:00', timezone: 'Mars/Olympus' }, settings)).toMatch(/EDT$/);
+    });
+
+    it('in settings fall back to the server\'s zone', () => {
+        expect(isValidTimezone(studioTimezone({ timezone: 'Mars/Olympus' }))).toBe(true);
+        expect(eventTimezone({ timezone: 'Mars/Olympus' }, { timezone: 'Mars/Olympus' })).toBe(studioTimezone());
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { startServer, testEvent, publish } from '../helpers/server.js';
+
+const minutesFromNow = (minutes) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+// Unsigned deliveries are accepted outside production, so these are plain Stripe event payloads
+const sessionCompleted = (id = 'evt_completed') => ({
+    id,
+    type: 'checkout.session.completed',
+    data: {
+        object: {
+            id: 'cs_test_1',
+            amount_total: 4000,
+            currency: 'gbp',
+            payment_intent: 'pi_test_1',
+            customer_details: { name: 'Ada Lovelace', email: 'ada@example.com', phone: '' },
+            metadata: { eventId: 'evt-1', quantity: '2' },
+            total_details: { amount_discount: 0 }
+        }
+    }
+});
+
+const chargeRefunded = (id, amountRefunded, refunded) => ({
+    id,
+    type: 'charge.refunded',
+    data: { object: { id: 'ch_test_1', payment_intent: 'pi_test_1', currency: 'gbp', amount_refunded: amountRefunded, refunded } }
+});
+
+describe('Stripe webhooks', () => {
+    let server;
+    beforeEach(async () => {
+        server = await startServer({
+            seed: { holds: [{ id: 'hold-1', eventId: 'evt-1', quantity: 2, attendees: ['Ada', 'Charles'], stripeSessionId: 'cs_test_1', expiresAt: minutesFromNow(20) }] }
+        });
+        await publish(server, [testEvent({ price: 20, capacity: 3 })], { paymentConfig: { currency: 'gbp' } });
+    });
+    afterEach(async () => { await server.stop(); });
+
+    const deliver = (event) => server.request('POST', '/api/webhook', { body: event });
+    const booking = () => server.readStore('bookings')[0];
+
+    it('turn a completed checkout\'s hold into a booking', async () => {
+        expect((await server.request('GET', '/api/events/evt-1/availability')).body).toMatchObject({ held: 2, booked: 0 });
+
+        expect(await deliver(sessionCompleted())).toMatchObject({ status: 200, body: { received: true } });
+        expect(booking()).toMatchObject({
+            eventId: 'evt-1', customerEmail: 'ada@example.com', quantity: 2, attendees: ['Ada', 'Charles'],
+            amount: 40, currency: 'gbp', provider: 'stripe', stripePaymentIntentId: 'pi_test_1', status: 'confirmed'
+        });
+        expect(server.readStore('holds')).toEqual([]);
+        expect((await server.request('GET', '/api/events/evt-1/availability')).body).toMatchObject({ held: 0, booked: 2, remaining: 1 });
+    });
+
+    it('book and email once however often Stripe retries', async () => {
+        await deliver(sessionCompleted());
+        expect(await deliver(sessionCompleted())).toMatchObject({ status: 200, body: { received: true, duplicate: true } });
+        // A different event for the same session, e.g. replayed from the dashboard
+        await deliver(sessionCompleted('evt_completed_again'));
+
+        expect(server.readStore('bookings')).toHaveLength(1);
+        expect(server.outbox().filter(m => m.subject.startsWith('Booking Confirmed'))).toHaveLength(1);
+        const log = (await server.request('GET', '/api/webhooks/events', { admin: true })).body.events;
+        expect(log.find(e => e.id === 'evt_completed')).toMatchObject({ status: 'processed', attempts: 2 });
+    });
+
+    it('record a partial refund without cancelling', async () => {
+        await deliver(sessionCompleted());
+        await deliver(chargeRefunded('evt_refund_1', 1500, false));
+
+        expect(booking()).toMatchObject({ status: 'confirmed', refundedAmount: 15 });
+        expect(server.outbox().find(m => m.subject.startsWith('Refund issued')).html).toContain('£15.00');
+    });
+
+    it('cancel the booking on a full refund and free its seats', async () => {
+        await deliver(sessionCompleted());
+        await deliver(chargeRefunded('evt_refund_1', 1500, false));
+        await deliver(chargeRefunded('evt_refund_2', 4000, true));
+        await deliver(chargeRefunded('evt_refund_2', 4000, true));
+
+        expect(booking()).toMatchObject({ status: 'cancelled', refundedAmount: 40, wasPaid: true });
+        expect(server.outbox().filter(m => m.subject.startsWith('Refund issued'))).toHaveLength(1);
+        expect((await server.request('GET', '/api/events/evt-1/availability')).body).toMatchObject({ booked: 0, remaining: 3 });
+    });
+
+    it('release the hold when a checkout expires', async () => {
+        const expired = { id: 'evt_expired', type: 'checkout.session.expired', data: { object: { id: 'cs_test_1', metadata: { eventId: 'evt-1' } } } };
+        await deliver(expired);
+        expect(server.readStore('holds')).toEqual([]);
+        expect(server.readStore('bookings')).toEqual([]);
+    });
+
+    it('log event types they don\'t handle as ignored', async () => {
+        await deliver({ id: 'evt_other', type: 'customer.created', data: { object: {} } });
+        expect(server.readStore('webhookEvents')).toEqual([expect.objectContaining({ id: 'evt_other', status: 'ignored' })]);
+    });
+
+    it('reject payloads that aren\'t JSON', async () => {
+        expect((await deliver('not json')).status).toBe(400);
+    });
+});
+
+describe('Stripe webhooks in production', () => {
+    it('are refused without a signing secret', async () => {
+        const server = await startServer({ env: { NODE_ENV: 'production' } });
+        try {
+            const response = await server.request('POST', '/api/webhook', { body: sessionCompleted() });
+            expect(response.status).toBe(400);
+            expect(server.readStore('webhookEvents')).toEqual([]);
+        } finally {
+            await server.stop();
+        }
+    });
+});
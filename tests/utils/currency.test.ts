@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import * as server from '../../server/currency.js';
+import { roundAmount } from '../../utils/currency';
+
+describe('roundAmount', () => {
+  it('rounds the way the server charges', () => {
+    const cases: [number, string][] = [[2.9985, 'USD'], [10 / 3, 'EUR'], [185.175, 'JPY'], [1.23456, 'KWD'], [0.005, 'BHD']];
+    for (const [amount, currency] of cases) {
+      expect(roundAmount(amount, currency)).toBe(server.roundAmount(amount, currency));
+    }
+  });
+
+  it('defaults to USD', () => {
+    expect(roundAmount(1.005)).toBe(server.roundAmount(1.005, 'usd'));
+  });
+});
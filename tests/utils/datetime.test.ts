@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { isValidTimezone, eventTimezone, browserTimezone, eventStart } from '../../utils/datetime';
+
+describe('eventTimezone', () => {
+  it('uses the event\'s zone, then the studio\'s', () => {
+    expect(eventTimezone({ timezone: 'Europe/London' }, { timezone: 'America/New_York' })).toBe('Europe/London');
+    expect(eventTimezone({}, { timezone: 'America/New_York' })).toBe('America/New_York');
+  });
+
+  it('skips zones Intl doesn\'t know', () => {
+    expect(isValidTimezone('Mars/Olympus')).toBe(false);
+    expect(eventTimezone({ timezone: 'Mars/Olympus' }, { timezone: 'America/New_York' })).toBe('America/New_York');
+    expect(eventTimezone({ timezone: 'Mars/Olympus' }, { timezone: 'Mars/Olympus' })).toBe(browserTimezone());
+  });
+
+  it('still gives event times for unknown zones', () => {
+    const start = eventStart({ date: '2030-06-01T19:00', timezone: 'Mars/Olympus' }, { timezone: 'America/New_York' });
+    expect(start.toISOString()).toBe('2030-06-01T23:00:00.000Z');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { Event, RecurrenceRule } from '../../types';
+import {
+  MAX_OCCURRENCES, expandRecurrence, previewRecurrence, defaultRecurrence, describeRecurrence,
+  occurrenceId, buildOccurrences, updateOccurrence, groupBySeries
+} from '../../utils/recurrence';
+
+// 2030-01-01 is a Tuesday
+const weekly = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule =>
+  ({ frequency: 'weekly', interval: 1, weekdays: [2], until: '2030-01-29', exceptions: [], ...overrides });
+
+const monthly = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule =>
+  ({ frequency: 'monthly', interval: 1, weekdays: [6], weekOfMonth: 1, until: '2030-04-30', exceptions: [], ...overrides });
+
+describe('expandRecurrence', () => {
+  it('repeats weekly at the start\'s time of day, up to and including until', () => {
+    expect(expandRecurrence('2030-01-01T18:30', weekly())).toEqual([
+      '2030-01-01T18:30', '2030-01-08T18:30', '2030-01-15T18:30', '2030-01-22T18:30', '2030-01-29T18:30'
+    ]);
+  });
+
+  it('handles several weekdays every other week, starting from the start day', () => {
+    const days = expandRecurrence('2030-01-01T09:00', weekly({ interval: 2, weekdays: [4, 1], until: '2030-01-31' }));
+    expect(days.map(d => d.slice(0, 10))).toEqual(['2030-01-03', '2030-01-14', '2030-01-17', '2030-01-28', '2030-01-31']);
+  });
+
+  it('finds the nth weekday of each month', () => {
+    expect(expandRecurrence('2030-01-01T10:00', monthly()).map(d => d.slice(0, 10)))
+      .toEqual(['2030-01-05', '2030-02-02', '2030-03-02', '2030-04-06']);
+  });
+
+  it('finds the last weekday of each month', () => {
+    expect(expandRecurrence('2030-01-01T10:00', monthly({ weekdays: [5], weekOfMonth: -1 })).map(d => d.slice(0, 10)))
+      .toEqual(['2030-01-25', '2030-02-22', '2030-03-29', '2030-04-26']);
+  });
+
+  it('skips a month whose day falls before the start', () => {
+    expect(expandRecurrence('2030-01-10T10:00', monthly({ interval: 2 })).map(d => d.slice(0, 10)))
+      .toEqual(['2030-03-02']);
+  });
+
+  it('leaves out exceptions', () => {
+    expect(expandRecurrence('2030-01-01T18:30', weekly({ exceptions: ['2030-01-15', '2030-01-22'] })).map(d => d.slice(0, 10)))
+      .toEqual(['2030-01-01', '2030-01-08', '2030-01-29']);
+  });
+
+  it(`stops at ${MAX_OCCURRENCES} occurrences`, () => {
+    const days = expandRecurrence('2030-01-01T18:30', weekly({ until: '2040-01-01' }));
+    expect(days).toHaveLength(MAX_OCCURRENCES);
+    expect(days[MAX_OCCURRENCES - 1]).toBe('2031-12-23T18:30');
+  });
+
+  it('gives nothing for rules it can\'t expand', () => {
+    expect(expandRecurrence('2030-01-01T18:30', weekly({ weekdays: [] }))).toEqual([]);
+    expect(expandRecurrence('2030-01-01T18:30', weekly({ until: '' }))).toEqual([]);
+    expect(expandRecurrence('2030-01-01T18:30', weekly({ until: '2029-12-01' }))).toEqual([]);
+  });
+});
+
+describe('previewRecurrence', () => {
+  it('lists skipped days so they can be restored', () => {
+    expect(previewRecurrence('2030-01-01T18:30', weekly({ until: '2030-01-15', exceptions: ['2030-01-08'] }))).toEqual([
+      { day: '2030-01-01', skipped: false },
+      { day: '2030-01-08', skipped: true },
+      { day: '2030-01-15', skipped: false }
+    ]);
+  });
+});
+
+describe('defaultRecurrence', () => {
+  it('repeats on the start\'s weekday for three months', () => {
+    expect(defaultRecurrence('2030-01-31T18:30')).toEqual({
+      frequency: 'weekly', interval: 1, weekdays: [4], weekOfMonth: 4, until: '2030-05-01', exceptions: []
+    });
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('reads like a sentence', () => {
+    expect(describeRecurrence(weekly())).toBe('Every week on Tuesday');
+    expect(describeRecurrence(weekly({ interval: 2, weekdays: [4, 1] }))).toBe('Every 2 weeks on Monday and Thursday');
+    expect(describeRecurrence(monthly())).toBe('Monthly on the first Saturday');
+    expect(describeRecurrence(monthly({ interval: 3, weekdays: [5], weekOfMonth: -1 }))).toBe('Every 3 months on the last Friday');
+  });
+});
+
+const template = {
+  id: 'draft',
+  title: 'Morning Flow',
+  date: '2030-01-01T23:00',
+  endDate: '2030-01-02T00:30',
+  location: 'Studio',
+  price: 15,
+  capacity: 12,
+  bookings: 3,
+  status: 'published',
+  stripeProductId: 'prod_template',
+  stripePriceId: 'price_template',
+  ticketTypes: [{ id: 'standard', name: 'Standard', price: 15, stripePriceId: 'price_tier' }]
+} as unknown as Event;
+
+describe('buildOccurrences', () => {
+  it('gives each start its own day-based id and the template\'s duration', () => {
+    const [occurrence] = buildOccurrences(template, 'flow', ['2030-01-08T23:00']);
+    expect(occurrenceId('flow', '2030-01-08T23:00')).toBe('flow-20300108');
+    expect(occurrence).toMatchObject({ id: 'flow-20300108', seriesId: 'flow', date: '2030-01-08T23:00', endDate: '2030-01-09T00:30', bookings: 0 });
+  });
+
+  it('leaves Stripe products and prices to be created per occurrence', () => {
+    const [occurrence] = buildOccurrences(template, 'flow', ['2030-01-08T23:00']);
+    expect(occurrence.stripeProductId).toBeUndefined();
+    expect(occurrence.stripePriceId).toBeUndefined();
+    expect(occurrence.ticketTypes![0].stripePriceId).toBeUndefined();
+  });
+});
+
+describe('updateOccurrence', () => {
+  it('applies template changes but keeps the occurrence\'s bookings and Stripe ids', () => {
+    const existing = {
+      ...buildOccurrences(template, 'flow', ['2030-01-08T23:00'])[0],
+      bookings: 5,
+      stripeProductId: 'prod_1',
+      stripePriceId: 'price_1',
+      ticketTypes: [{ id: 'standard', name: 'Standard', price: 15, stripePriceId: 'price_1_standard' }]
+    } as Event;
+    const edited = { ...template, title: 'Slow Flow', ticketTypes: [...template.ticketTypes!, { id: 'vip', name: 'VIP', price: 30 }] } as Event;
+
+    const updated = updateOccurrence(existing, edited, '2030-01-08T23:00');
+    expect(updated).toMatchObject({ id: 'flow-20300108', title: 'Slow Flow', bookings: 5, stripeProductId: 'prod_1', stripePriceId: 'price_1' });
+    expect(updated.ticketTypes!.map(t => t.stripePriceId)).toEqual(['price_1_standard', undefined]);
+  });
+});
+
+describe('groupBySeries', () => {
+  it('lists each series once, in date order, among single events', () => {
+    const event = (id: string, date: string, seriesId?: string) => ({ id, date, seriesId } as Event);
+    const listings = groupBySeries([
+      event('flow-20300115', '2030-01-15T09:00', 'flow'),
+      event('gala', '2030-01-10T19:00'),
+      event('flow-20300108', '2030-01-08T09:00', 'flow')
+    ]);
+    expect(listings).toEqual([
+      { seriesId: 'flow', occurrences: [event('flow-20300108', '2030-01-08T09:00', 'flow'), event('flow-20300115', '2030-01-15T09:00', 'flow')] },
+      { event: event('gala', '2030-01-10T19:00') }
+    ]);
+  });
+});
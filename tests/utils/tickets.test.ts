@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { promoDiscount } from '../../utils/tickets';
+
+describe('promoDiscount', () => {
+  it('takes percentages of the whole order', () => {
+    expect(promoDiscount({ code: 'TEN', type: 'percent', value: 10 }, 60, 'USD')).toBe(6);
+    expect(promoDiscount({ code: 'THIRD', type: 'percent', value: 33 }, 19.99, 'USD')).toBe(6.6);
+  });
+
+  it('rounds to what the currency can charge', () => {
+    expect(promoDiscount({ code: 'SAVE', type: 'percent', value: 15 }, 1235, 'JPY')).toBe(185);
+    expect(promoDiscount({ code: 'SAVE', type: 'percent', value: 15 }, 8.235, 'KWD')).toBe(1.24);
+  });
+
+  it('never takes more than the order off a fixed discount', () => {
+    expect(promoDiscount({ code: 'FIVE', type: 'fixed', value: 5 }, 20, 'USD')).toBe(5);
+    expect(promoDiscount({ code: 'BIG', type: 'fixed', value: 50 }, 20, 'USD')).toBe(20);
+  });
+});
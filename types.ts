@@ -1,6 +1,13 @@
 
 export interface AgendaItem {
-    time: string;
+    id?: string; // Assigned on publish if missing; ticket holders sign up for sessions by id
+    time: string; // Start on its day, "09:00"
+    endTime?: string;
+    day?: number; // 1-based day of a multi-day event; missing means day 1
+    track?: string; // One of Event.tracks; missing means the first (or only) track
+    room?: string;
+    capacity?: number; // Seats for sign-ups; missing means unlimited
+    speakerIds?: string[]; // Speakers leading this session
     title: string;
     description: string;
 }
@@ -14,12 +21,69 @@ export interface Asset {
     blob?: Blob; // For local storage
 }
 
+export interface SpeakerLink {
+    label: string; // e.g. "Website", "Instagram"
+    url: string;
+}
+
+// A teacher, facilitator or speaker from the library, linked to events and agenda sessions by id
+export interface Speaker {
+    id: string;
+    name: string;
+    role?: string; // Shown under the name, e.g. "Reiki Master Teacher"
+    bio: string;
+    photoAssetId?: string; // Image from the asset library
+    photoUrl?: string; // Public copy of that image, uploaded on publish
+    links: SpeakerLink[];
+}
+
+// A reusable location. Events link to it by id, and can book one of its rooms.
+export interface Venue {
+    id: string;
+    name: string;
+    address: string;
+    rooms: string[];
+    defaultCapacity?: number; // Suggested for events booked here
+    accessibility?: string; // Step-free access, hearing loops, parking, ...
+    directions?: string;
+}
+
+export interface TicketType {
+    id: string;
+    name: string; // e.g. Early Bird, VIP, Concession
+    price: number;
+    quantity: number; // Seats allocated to this tier
+    salesStart?: string; // ISO String, on sale immediately if unset
+    salesEnd?: string; // ISO String, on sale until the event if unset
+    stripePriceId?: string;
+}
+
+// Weekly: on each of `weekdays`, every `interval` weeks.
+// Monthly: on the `weekOfMonth`th weekdays[0] (e.g. the first Saturday), every `interval` months.
+export interface RecurrenceRule {
+    frequency: 'weekly' | 'monthly';
+    interval: number;
+    weekdays: number[]; // 0 = Sunday
+    weekOfMonth?: number; // Monthly only: 1-4, or -1 for the last
+    until: string; // YYYY-MM-DD, the last day an occurrence may fall on
+    exceptions?: string[]; // YYYY-MM-DD days that are skipped
+}
+
+export interface EventReminders {
+    offsetMinutes: number[]; // Before the event starts; empty turns reminders off
+    sms?: boolean; // Also text bookers who gave a phone number
+}
+
 export interface Event {
     id: string;
     title: string;
     description: string;
-    date: string; // ISO String
-    location: string;
+    date: string; // Wall-clock start, "2026-12-01T19:00", in the event's time zone
+    endDate?: string; // Same format; events without one last two hours
+    timezone?: string; // IANA zone, e.g. "Europe/London"; falls back to AppSettings.timezone
+    location: string; // Display text; picking a venue fills it in from the venue's name and address
+    venueId?: string;
+    room?: string; // One of the venue's rooms
     capacity: number;
     bookings: number;
     price: number;
@@ -27,14 +91,266 @@ export interface Event {
     status: 'draft' | 'published' | 'past';
     tags: string[];
     agenda: AgendaItem[];
+    tracks?: string[]; // Parallel agenda tracks in display order, e.g. ["Main Stage", "Workshops"]
+    speakerIds?: string[]; // Speakers for the event as a whole; sessions can name their own
+    sessionSignups?: boolean; // Ticket holders pick agenda sessions (limited by AgendaItem.capacity) for a personal schedule
     assets: Asset[]; // Local assets specific to this event
+    ticketTypes?: TicketType[]; // When set, tickets are sold per tier instead of at the single price
+    reminders?: EventReminders; // Missing means the server defaults (1 day and 1 hour before, email only)
+    // Occurrences of a recurring series are ordinary events (own capacity, bookings and Stripe product)
+    // sharing a seriesId; each carries a copy of the rule it was generated from
+    seriesId?: string;
+    recurrence?: RecurrenceRule;
     
     // Stripe Integration
     stripeProductId?: string;
     stripePriceId?: string;
 }
 
-export type PaymentProvider = 'stripe' | 'square' | 'paypal' | 'venmo' | 'crypto' | 'none';
+// pending = recorded but not yet paid (manual / pay-at-the-door bookings)
+// cancelled = seats released; may or may not have been refunded
+export type BookingStatus = 'pending' | 'confirmed' | 'cancelled';
+
+// Server-side ledger entry, written when a checkout completes with any provider
+export interface Booking {
+    id: string;
+    eventId: string;
+    customerName: string;
+    customerEmail: string;
+    customerPhone: string;
+    amount: number; // Order total
+    currency: string;
+    ticketTypeId?: string;
+    quantity?: number; // Tickets in the order; missing means 1
+    attendees?: string[]; // Optional name per ticket, in order
+    ticketRevisions?: number[]; // Per ticket, bumped on each transfer to void the previous code
+    holderEmails?: string[]; // Per ticket, who it was last transferred to ('' if kept or no email given)
+    promoCodeId?: string;
+    promoCode?: string; // Copy of the code, kept if the promo code is later deleted
+    discount?: number; // Already taken off amount
+    provider?: PaymentProvider | 'rsvp'; // Missing on bookings made before other providers existed (Stripe); 'rsvp' for free events
+    providerRef?: string; // Square order / PayPal order id
+    stripeSessionId?: string;
+    stripePaymentIntentId?: string;
+    status: BookingStatus;
+    createdAt: string; // ISO String
+    paidAt?: string; // ISO String, when a pending booking was marked paid
+    cancelledAt?: string; // ISO String
+    wasPaid?: boolean; // Set on cancellation: whether money had been collected
+    refundedAmount?: number; // Total refunded through Stripe, full or partial
+    refundedAt?: string; // ISO String
+}
+
+// What a ticket page shows; the code itself is signed by the server
+export interface TicketDetails {
+    code: string;
+    ticketNumber: number; // 1-based, "Ticket 2 of 3"
+    ticketCount: number;
+    status: BookingStatus;
+    holderName: string; // Attendee name if given, otherwise the buyer
+    ticketTypeName?: string;
+    event?: Pick<Event, 'id' | 'title' | 'date' | 'endDate' | 'timezone' | 'location' | 'imageUrl' | 'sessionSignups'>;
+}
+
+// A booking as its holder sees it on the "manage my booking" page
+export interface ManagedTicket {
+    code: string;
+    ticketNumber: number;
+    holderName: string;
+    checkedIn: boolean;
+}
+
+export interface ManagedBooking {
+    id: string;
+    status: BookingStatus;
+    quantity: number;
+    amount: number;
+    currency: string;
+    refundedAmount?: number;
+    createdAt: string; // ISO String
+    ticketTypeName?: string;
+    event?: Pick<Event, 'id' | 'title' | 'date' | 'endDate' | 'timezone' | 'location' | 'imageUrl' | 'sessionSignups'>;
+    tickets: ManagedTicket[]; // Empty once cancelled
+    canCancel: boolean;
+    willRefund: boolean; // Cancelling now refunds the payment automatically
+    canTransfer: boolean;
+    refundDeadline?: string; // ISO String, last moment a paid booking can be cancelled online
+    note?: string; // Why cancelling isn't offered, when it isn't
+}
+
+export interface ManageSession {
+    email: string;
+    bookings: ManagedBooking[];
+}
+
+// One line on the door roster: a single ticket, so group bookings appear once per guest
+export interface RosterTicket {
+    code: string; // Signed ticket code, as encoded in the QR
+    bookingId: string;
+    ticketNumber: number;
+    name: string; // Attendee name if given, otherwise the buyer
+    customerName: string;
+    customerEmail: string;
+    ticketTypeName?: string;
+    status: BookingStatus;
+    checkedInAt?: string; // ISO String
+}
+
+// Cached per event in IndexedDB so the door keeps working offline
+export interface Roster {
+    eventId: string;
+    tickets: RosterTicket[];
+    syncedAt: string; // ISO String, last successful download
+}
+
+// A check-in made on this device that the server hasn't confirmed yet
+export interface QueuedCheckIn {
+    code: string;
+    eventId: string;
+    checkedInAt: string; // ISO String
+}
+
+export type CheckInResultType = 'checked_in' | 'duplicate' | 'invalid' | 'cancelled' | 'unpaid';
+
+export interface CheckInResult {
+    code: string;
+    result: CheckInResultType;
+    name?: string;
+    checkedInAt?: string; // For duplicates, when the ticket was first admitted
+}
+
+// queued = not attempted yet; skipped = the server has no email transport configured
+export type DeliveryStatus = 'queued' | 'sent' | 'failed' | 'skipped';
+
+export interface AnnouncementRecipient {
+    email: string;
+    name: string;
+    kind: 'attendee' | 'waitlist';
+    status: DeliveryStatus;
+    error?: string;
+    attemptedAt?: string; // ISO String
+}
+
+// A message sent to everyone booked on an event
+export interface Announcement {
+    id: string;
+    eventId: string;
+    subject: string;
+    message: string; // Plain text, as typed
+    includeWaitlist: boolean;
+    recipients: AnnouncementRecipient[];
+    createdAt: string; // ISO String
+}
+
+// Who an announcement would reach right now
+export interface AnnouncementAudience {
+    attendees: number; // Distinct emails with a confirmed booking
+    waitlist: number; // Waitlisters not already counted as attendees
+}
+
+// One Stripe webhook delivery (retries of the same event share an entry)
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed' | 'ignored';
+
+export interface WebhookEvent {
+    id: string; // Stripe event id
+    type: string;
+    livemode: boolean;
+    status: WebhookEventStatus;
+    attempts: number;
+    error?: string;
+    receivedAt: string; // ISO String
+    lastAttemptAt: string;
+    processedAt?: string;
+}
+
+export interface WebhookLog {
+    events: WebhookEvent[];
+    strict: boolean; // Unsigned deliveries are rejected
+    signed: boolean; // STRIPE_WEBHOOK_SECRET is set
+}
+
+export type DiscountType = 'percent' | 'fixed';
+
+export interface PromoCode {
+    id: string;
+    code: string; // Stored upper-case
+    type: DiscountType;
+    value: number; // Percent off, or an amount off the whole order
+    eventId?: string; // Missing means every event
+    maxRedemptions?: number;
+    expiresAt?: string; // ISO String
+    active: boolean;
+    redemptions: number; // Computed by the server from the bookings ledger
+    createdAt: string;
+}
+
+// What the public page learns about a code before checkout
+export type AppliedPromo = Pick<PromoCode, 'code' | 'type' | 'value'>;
+
+export interface BookingStats {
+    bookings: number;
+    revenue: number;
+}
+
+// Live seat counts for a published event (held = seats in open checkout sessions)
+export interface TicketTypeAvailability {
+    id: string;
+    remaining: number;
+    soldOut: boolean;
+    onSale: boolean;
+}
+
+export interface Availability {
+    capacity: number;
+    booked: number;
+    held: number;
+    remaining: number;
+    soldOut: boolean;
+    ticketTypes: TicketTypeAvailability[];
+}
+
+// Sign-ups for one agenda session (remaining is only set for sessions with a capacity)
+export interface SessionAvailability {
+    id: string;
+    registered: number;
+    remaining?: number;
+    full: boolean;
+}
+
+// One ticket's personal schedule, as the public event page shows it
+export interface TicketSchedule {
+    eventId: string;
+    holderName: string;
+    sessionIds: string[];
+    sessions: SessionAvailability[];
+}
+
+export interface SessionAttendee {
+    bookingId: string;
+    ticketNumber: number;
+    name: string; // Ticket holder
+    customerEmail: string; // Buyer
+    registeredAt: string; // ISO String
+}
+
+export interface SessionRoster {
+    session: AgendaItem;
+    attendees: SessionAttendee[];
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired';
+
+export interface WaitlistEntry {
+    id: string;
+    eventId: string;
+    name: string;
+    email: string;
+    status: WaitlistStatus;
+    offerExpiresAt?: string; // ISO String, set while a seat is offered
+    createdAt: string; // ISO String
+}
+
+export type PaymentProvider = 'stripe' | 'square' | 'paypal' | 'venmo' | 'crypto' | 'manual' | 'none';
 
 export interface AppSettings {
     id: string; // usually 'global'
@@ -44,8 +360,47 @@ export interface AppSettings {
         apiKey?: string; // Stripe/Square Public Key
         email?: string; // PayPal/Venmo Email
         walletAddress?: string; // Crypto Wallet
+        instructions?: string; // Shown to visitors paying manually (at the door, by invoice)
         currency?: string;
     };
+    timezone?: string; // IANA zone for events that don't set their own; publishing fills in the browser's
+    selfService?: {
+        refundWindowHours?: number; // Paid bookings can be cancelled online up to this long before the event
+    };
+    emailConfig?: {
+        fromName?: string;
+        fromAddress?: string; // Must be on a domain verified in Resend
+        replyTo?: string;
+        templates?: Partial<Record<EmailTemplateKey, EmailTemplate>>;
+    };
+}
+
+export type EmailTemplateKey = 'confirmation' | 'paymentInstructions' | 'reminder' | 'cancellation' | 'waitlistOffer' | 'refund' | 'announcement' | 'manageLink' | 'ticketTransfer';
+
+// HTML body with {{variables}}; a studio's copy replaces the built-in one
+export interface EmailTemplate {
+    subject: string;
+    body: string;
+}
+
+// A built-in template as the server describes it
+export interface EmailTemplateInfo extends EmailTemplate {
+    key: EmailTemplateKey;
+    label: string;
+    description: string;
+    variables: string[];
+}
+
+export interface EmailTemplateCatalog {
+    templates: EmailTemplateInfo[];
+    transport: 'resend' | 'file' | 'none';
+    defaultFrom: string;
+}
+
+export interface EmailPreview {
+    from: string;
+    subject: string;
+    html: string;
 }
 
 export interface GeminiGenConfig {
@@ -0,0 +1,52 @@
+import { AgendaItem, AppSettings, Event } from '../types';
+import { formatEventDate, shiftWallTime, wallTimeDifference } from './datetime';
+
+// Agendas can span several days and run parallel tracks. Items without a day belong to day 1 and
+// items without a track to the first one, so single-day, single-track agendas need neither.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const itemDay = (item: AgendaItem) => item.day || 1;
+
+// Calendar days from the start to the end date, at least one and at least as many as the agenda uses
+export const agendaDayCount = (event: Pick<Event, 'date' | 'endDate' | 'agenda'>) => {
+    const span = event.date && event.endDate
+        ? Math.floor(wallTimeDifference(event.date.slice(0, 10) + 'T00:00', event.endDate.slice(0, 10) + 'T00:00') / DAY_MS) + 1
+        : 1;
+    return Math.max(1, span || 1, ...event.agenda.map(itemDay));
+};
+
+// The event's tracks, plus any an item names that the list lacks
+export const agendaTracks = (event: Pick<Event, 'tracks' | 'agenda'>) => {
+    const tracks = [...(event.tracks || [])];
+    for (const item of event.agenda) {
+        if (item.track && !tracks.includes(item.track)) tracks.push(item.track);
+    }
+    return tracks;
+};
+
+export const itemTrack = (item: AgendaItem, tracks: string[]) => item.track || tracks[0] || '';
+
+// A day's items in time order
+export const itemsForDay = (agenda: AgendaItem[], day: number) =>
+    agenda.filter(item => itemDay(item) === day).sort((a, b) => a.time.localeCompare(b.time));
+
+// "Sat, Nov 7" for the nth day of the event
+export const dayDate = (event: Pick<Event, 'date' | 'timezone'>, day: number, settings?: Pick<AppSettings, 'timezone'>) =>
+    event.date
+        ? formatEventDate({ ...event, date: shiftWallTime(event.date, (day - 1) * DAY_MS) }, settings, { weekday: 'short', month: 'short', day: 'numeric' })
+        : '';
+
+export const timeRange = (item: AgendaItem) => item.endTime ? `${item.time}–${item.endTime}` : item.time;
+
+// One line per item for plain-text descriptions (calendar links); mirrors server/ics.js
+export const agendaText = (event: Pick<Event, 'agenda'>) => {
+    const multiDay = event.agenda.some(item => itemDay(item) > 1);
+    return [...event.agenda]
+        .sort((a, b) => itemDay(a) - itemDay(b) || a.time.localeCompare(b.time))
+        .map(item => {
+            const where = [item.track, item.room].filter(Boolean).join(', ');
+            return `${multiDay ? `Day ${itemDay(item)} ` : ''}${timeRange(item)} ${item.title}${where ? ` (${where})` : ''}${item.description ? ` - ${item.description}` : ''}`;
+        })
+        .join('\n');
+};
@@ -1,20 +1,25 @@
-import { Event } from '../types';
+import { Event, AppSettings } from '../types';
+import { eventStart, eventEnd, eventTimezone } from './datetime';
+import { agendaText } from './agenda';
 
-export const generateGoogleCalendarUrl = (event: Event) => {
-  const startTime = new Date(event.date);
-  // Default duration 2 hours if not specified, calculating end time
-  const endTime = new Date(startTime.getTime() + 2 * 60 * 60 * 1000);
+export const generateGoogleCalendarUrl = (event: Event, settings?: Pick<AppSettings, 'timezone'>) => {
+  const startTime = eventStart(event, settings);
+  const endTime = eventEnd(event, settings);
 
   const formatDate = (date: Date) => {
     return date.toISOString().replace(/-|:|\.\d\d\d/g, "");
   };
 
+  // Same agenda text as the .ics files the server builds
+  const agenda = agendaText(event);
+
   const params = new URLSearchParams({
     action: 'TEMPLATE',
     text: event.title,
-    details: `${event.description}\n\nBooked via EventForge.`,
+    details: `${event.description}${agenda ? `\n\nAgenda:\n${agenda}` : ''}\n\nBooked via EventForge.`,
     location: event.location,
-    dates: `${formatDate(startTime)}/${formatDate(endTime)}`
+    dates: `${formatDate(startTime)}/${formatDate(endTime)}`,
+    ctz: eventTimezone(event, settings)
   });
 
   return `https://calendar.google.com/calendar/render?${params.toString()}`;
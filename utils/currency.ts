@@ -0,0 +1,44 @@
+export const DEFAULT_CURRENCY = 'USD';
+
+// Offered in Settings; any ISO 4217 code Stripe supports will also work
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK', 'JPY', 'MXN', 'BRL', 'INR', 'SGD', 'HKD', 'ZAR'];
+
+// Smallest units per major unit, as Stripe counts them (mirrors server/currency.js)
+const ZERO_DECIMAL_CURRENCIES = ['BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'];
+const THREE_DECIMAL_CURRENCIES = ['BHD', 'JOD', 'KWD', 'OMR', 'TND'];
+
+const minorUnitFactor = (currency: string) => {
+  const code = currency.toUpperCase();
+  if (ZERO_DECIMAL_CURRENCIES.includes(code)) return 1;
+  if (THREE_DECIMAL_CURRENCIES.includes(code)) return 1000;
+  return 100;
+};
+
+// Round a computed amount to what the currency can actually charge, the same way the server does.
+// Three-decimal currencies are charged to the nearest ten minor units.
+export const roundAmount = (amount: number, currency: string = DEFAULT_CURRENCY) => {
+  const factor = minorUnitFactor(currency);
+  const minor = Math.round(amount * factor);
+  return (THREE_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? Math.round(minor / 10) * 10 : minor) / factor;
+};
+
+// Locale-aware price, e.g. "$20", "€19.50", "¥1,500". Whole amounts drop the ".00".
+export const formatPrice = (amount: number, currency: string = DEFAULT_CURRENCY) => {
+  const wholeAmount = Number.isInteger(amount) ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {};
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase(), ...wholeAmount }).format(amount);
+  } catch (e) {
+    // Unknown currency code
+    return `${amount} ${currency.toUpperCase()}`;
+  }
+};
+
+// Symbol only, for input labels like "Price (€)"
+export const currencySymbol = (currency: string = DEFAULT_CURRENCY) => {
+  try {
+    const parts = new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).formatToParts(0);
+    return parts.find(p => p.type === 'currency')?.value || currency.toUpperCase();
+  } catch (e) {
+    return currency.toUpperCase();
+  }
+};
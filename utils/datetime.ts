@@ -0,0 +1,92 @@
+import { Event, AppSettings } from '../types';
+
+// Event.date and Event.endDate are wall-clock times ("2026-12-01T19:00", from a datetime-local
+// input) in the event's time zone. These helpers turn them into instants and format them in that
+// zone, so a visitor elsewhere sees the time the event actually starts. Mirrors server/timezones.js.
+
+export const DEFAULT_DURATION_HOURS = 2; // For events without an end time
+
+type EventTimes = Pick<Event, 'date' | 'endDate' | 'timezone'>;
+
+export const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Intl throws for zone names it doesn't know, e.g. from an old backup
+export const isValidTimezone = (timezone?: string) => {
+    if (!timezone) return false;
+    try {
+        new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+// The event's own zone, else the studio's, else this browser's; unknown names are skipped
+export const eventTimezone = (event: Pick<Event, 'timezone'>, settings?: Pick<AppSettings, 'timezone'>) =>
+    [event.timezone, settings?.timezone].find(isValidTimezone) || browserTimezone();
+
+// Minutes ahead of UTC in the zone at that instant
+const zoneOffsetMinutes = (timezone: string, date: Date) => {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone, hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(date).filter(p => p.type !== 'literal').map(p => [p.type, Number(p.value)]));
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// Strings with an explicit offset or Z are instants already; bare wall-clock times are read in the zone
+export const parseWallTime = (value: string, timezone: string) => {
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) return new Date(value);
+
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+    if (!match) return new Date(value);
+    const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).filter(v => v !== undefined).map(Number);
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    // Two passes settle on the right offset either side of a DST change
+    let instant = asUtc - zoneOffsetMinutes(timezone, new Date(asUtc)) * 60000;
+    instant = asUtc - zoneOffsetMinutes(timezone, new Date(instant)) * 60000;
+    return new Date(instant);
+};
+
+// The inverse: an instant as a datetime-local value on the zone's clock
+export const toWallTime = (date: Date, timezone: string) => {
+    const wall = new Date(date.getTime() + zoneOffsetMinutes(timezone, date) * 60000);
+    return wall.toISOString().slice(0, 16);
+};
+
+// Moves a datetime-local value by a number of milliseconds on the wall clock (DST doesn't apply)
+export const shiftWallTime = (value: string, ms: number) => new Date(new Date(`${value}Z`).getTime() + ms).toISOString().slice(0, 16);
+
+// Milliseconds between two datetime-local values, on the wall clock
+export const wallTimeDifference = (from: string, to: string) => new Date(`${to}Z`).getTime() - new Date(`${from}Z`).getTime();
+
+export const eventStart = (event: EventTimes, settings?: Pick<AppSettings, 'timezone'>) =>
+    parseWallTime(event.date, eventTimezone(event, settings));
+
+export const eventEnd = (event: EventTimes, settings?: Pick<AppSettings, 'timezone'>) => event.endDate
+    ? parseWallTime(event.endDate, eventTimezone(event, settings))
+    : new Date(eventStart(event, settings).getTime() + DEFAULT_DURATION_HOURS * 60 * 60 * 1000);
+
+// Date parts of the event in its own zone, e.g. formatEventDate(event, settings, { month: 'long', day: 'numeric' })
+export const formatEventDate = (event: EventTimes, settings: Pick<AppSettings, 'timezone'> | undefined, options: Intl.DateTimeFormatOptions) =>
+    eventStart(event, settings).toLocaleDateString(undefined, { ...options, timeZone: eventTimezone(event, settings) });
+
+// "7:00 – 9:00 PM GMT", or with another zone, the same span on that zone's clock
+export const formatEventTimeRange = (event: EventTimes, settings?: Pick<AppSettings, 'timezone'>, timezone = eventTimezone(event, settings)) =>
+    new Intl.DateTimeFormat(undefined, { hour: 'numeric', minute: '2-digit', timeZoneName: 'short', timeZone: timezone })
+        .formatRange(eventStart(event, settings), eventEnd(event, settings));
+
+// "Sun, Nov 1, 2026, 7:00 – 9:00 PM GMT", for tickets and booking summaries
+export const formatEventSchedule = (event: EventTimes, settings?: Pick<AppSettings, 'timezone'>) =>
+    new Intl.DateTimeFormat(undefined, {
+        weekday: 'short', year: 'numeric', month: 'short', day: 'numeric',
+        hour: 'numeric', minute: '2-digit', timeZoneName: 'short', timeZone: eventTimezone(event, settings)
+    }).formatRange(eventStart(event, settings), eventEnd(event, settings));
+
+// Whether a visitor's clock currently reads differently from the event's
+export const isDifferentZone = (event: EventTimes, settings?: Pick<AppSettings, 'timezone'>) => {
+    const start = eventStart(event, settings);
+    return zoneOffsetMinutes(eventTimezone(event, settings), start) !== zoneOffsetMinutes(browserTimezone(), start);
+};
@@ -0,0 +1,158 @@
+import { Event, RecurrenceRule } from '../types';
+import { shiftWallTime, wallTimeDifference } from './datetime';
+
+// Recurring series. A rule expands into the start times of its occurrences, each of which is
+// saved and published as an ordinary event. Dates are calendar days on the event's wall clock,
+// so the arithmetic runs in UTC and DST never moves a class.
+
+export const MAX_OCCURRENCES = 104; // Two years of a weekly class
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const WEEK_OF_MONTH_OPTIONS = [
+    { value: 1, label: 'first' },
+    { value: 2, label: 'second' },
+    { value: 3, label: 'third' },
+    { value: 4, label: 'fourth' },
+    { value: -1, label: 'last' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDay = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00Z`);
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// The nth (or last, for -1) given weekday of a month, or undefined when the month has no fifth one
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number) => {
+    if (n === -1) {
+        const last = new Date(Date.UTC(year, month + 1, 0));
+        return new Date(last.getTime() - ((last.getUTCDay() - weekday + 7) % 7) * DAY_MS);
+    }
+    const first = new Date(Date.UTC(year, month, 1));
+    const date = new Date(first.getTime() + (((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7) * DAY_MS);
+    return date.getUTCMonth() === month ? date : undefined;
+};
+
+// A rule starting from the day of `start`: weekly on that weekday, until three months later
+export const defaultRecurrence = (start: string): RecurrenceRule => {
+    const day = start ? parseDay(start) : new Date();
+    return {
+        frequency: 'weekly',
+        interval: 1,
+        weekdays: [day.getUTCDay()],
+        weekOfMonth: Math.min(4, Math.ceil(day.getUTCDate() / 7)),
+        until: dayKey(new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 3, day.getUTCDate()))),
+        exceptions: []
+    };
+};
+
+// Every day the rule falls on from `start` to `until`, as YYYY-MM-DD, including skipped ones
+const ruleDays = (start: string, rule: RecurrenceRule) => {
+    const first = parseDay(start);
+    const until = parseDay(rule.until);
+    const interval = Math.max(1, rule.interval || 1);
+    const weekdays = [...new Set(rule.weekdays)].sort();
+    const days: Date[] = [];
+    if (isNaN(first.getTime()) || isNaN(until.getTime()) || weekdays.length === 0) return [];
+
+    if (rule.frequency === 'weekly') {
+        const firstSunday = first.getTime() - first.getUTCDay() * DAY_MS;
+        for (let week = 0; days.length < MAX_OCCURRENCES; week += interval) {
+            const sunday = firstSunday + week * 7 * DAY_MS;
+            if (sunday > until.getTime()) break;
+            for (const weekday of weekdays) {
+                const day = new Date(sunday + weekday * DAY_MS);
+                if (day >= first && day <= until) days.push(day);
+            }
+        }
+    } else {
+        for (let month = 0; days.length < MAX_OCCURRENCES; month += interval) {
+            const monthStart = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + month, 1));
+            if (monthStart > until) break;
+            const day = nthWeekdayOfMonth(monthStart.getUTCFullYear(), monthStart.getUTCMonth(), weekdays[0], rule.weekOfMonth || 1);
+            if (day && day >= first && day <= until) days.push(day);
+        }
+    }
+    return days.slice(0, MAX_OCCURRENCES).map(dayKey);
+};
+
+// Start times (datetime-local values, at start's time of day) of the occurrences from start onwards
+export const expandRecurrence = (start: string, rule: RecurrenceRule) => {
+    const skipped = new Set(rule.exceptions || []);
+    return ruleDays(start, rule).filter(day => !skipped.has(day)).map(day => `${day}${start.slice(10)}`);
+};
+
+// Like expandRecurrence, but also lists skipped days so the editor can offer them back
+export const previewRecurrence = (start: string, rule: RecurrenceRule) => {
+    const skipped = new Set(rule.exceptions || []);
+    return ruleDays(start, rule).map(day => ({ day, skipped: skipped.has(day) }));
+};
+
+// "Every week on Tuesday", "Every 2 weeks on Monday and Thursday", "Monthly on the first Saturday"
+export const describeRecurrence = (rule: RecurrenceRule) => {
+    const names = [...rule.weekdays].sort().map(d => WEEKDAY_NAMES[d]);
+    const dayList = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+    if (rule.frequency === 'weekly') {
+        return `${rule.interval > 1 ? `Every ${rule.interval} weeks` : 'Every week'} on ${dayList}`;
+    }
+    const nth = WEEK_OF_MONTH_OPTIONS.find(o => o.value === (rule.weekOfMonth || 1))?.label;
+    return `${rule.interval > 1 ? `Every ${rule.interval} months` : 'Monthly'} on the ${nth} ${names[0]}`;
+};
+
+// Occurrence ids are derived from the day, so regenerating a series keeps the ids (and with them
+// the bookings) of occurrences that stay put
+export const occurrenceId = (seriesId: string, start: string) => `${seriesId}-${start.slice(0, 10).replace(/-/g, '')}`;
+
+// template supplies everything but the dates; its end time keeps the same duration at each start
+export const buildOccurrences = (template: Event, seriesId: string, starts: string[]): Event[] => {
+    const duration = template.endDate ? wallTimeDifference(template.date, template.endDate) : undefined;
+    return starts.map(start => ({
+        ...template,
+        id: occurrenceId(seriesId, start),
+        seriesId,
+        date: start,
+        endDate: duration !== undefined ? shiftWallTime(start, duration) : undefined,
+        bookings: 0,
+        // Each occurrence gets its own Stripe product on publish
+        stripeProductId: undefined,
+        stripePriceId: undefined,
+        ticketTypes: template.ticketTypes?.map(t => ({ ...t, stripePriceId: undefined }))
+    }));
+};
+
+// Applies the template to an existing occurrence, keeping what belongs to that occurrence alone
+export const updateOccurrence = (occurrence: Event, template: Event, start: string): Event => {
+    const [fresh] = buildOccurrences(template, occurrence.seriesId!, [start]);
+    return {
+        ...fresh,
+        id: occurrence.id,
+        bookings: occurrence.bookings,
+        stripeProductId: occurrence.stripeProductId,
+        stripePriceId: occurrence.stripePriceId,
+        // Tiers keep their Stripe prices by id; the server replaces a price whose amount changed
+        ticketTypes: template.ticketTypes?.map(t => ({ ...t, stripePriceId: occurrence.ticketTypes?.find(o => o.id === t.id)?.stripePriceId }))
+    };
+};
+
+// Groups events for listing: each series once (occurrences in date order) among the single events
+export type EventListing = { event: Event } | { seriesId: string, occurrences: Event[] };
+
+export const groupBySeries = (events: Event[]): EventListing[] => {
+    const listings: EventListing[] = [];
+    const seriesListings = new Map<string, { seriesId: string, occurrences: Event[] }>();
+    for (const event of events) {
+        if (!event.seriesId) {
+            listings.push({ event });
+            continue;
+        }
+        let listing = seriesListings.get(event.seriesId);
+        if (!listing) {
+            listing = { seriesId: event.seriesId, occurrences: [] };
+            seriesListings.set(event.seriesId, listing);
+            listings.push(listing);
+        }
+        listing.occurrences.push(event);
+    }
+    seriesListings.forEach(listing => listing.occurrences.sort((a, b) => a.date.localeCompare(b.date)));
+    return listings;
+};
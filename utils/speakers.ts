@@ -0,0 +1,19 @@
+import { Asset, Event, Speaker } from '../types';
+
+// Everyone appearing at an event: its own speakers first, then those of its sessions in agenda order
+export const eventSpeakerIds = (event: Pick<Event, 'speakerIds' | 'agenda'>) =>
+    [...new Set([...(event.speakerIds || []), ...event.agenda.flatMap(item => item.speakerIds || [])])];
+
+// Resolves ids against the library, skipping speakers that have since been deleted
+export const findSpeakers = (ids: string[] | undefined, speakers: Speaker[]) =>
+    (ids || []).map(id => speakers.find(s => s.id === id)).filter((s): s is Speaker => !!s);
+
+export const speakerEvents = (speakerId: string, events: Event[]) =>
+    events.filter(event => eventSpeakerIds(event).includes(speakerId));
+
+// The published photo, or while editing locally the library asset it will be uploaded from
+export const speakerPhoto = (speaker: Speaker, assets: Asset[] = []) =>
+    speaker.photoUrl || assets.find(a => a.id === speaker.photoAssetId)?.url || '';
+
+export const speakerInitials = (name: string) =>
+    name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
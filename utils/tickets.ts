@@ -0,0 +1,25 @@
+import { AppliedPromo, Event, TicketType } from '../types';
+import { roundAmount } from './currency';
+
+// Most tickets one order can take (matches MAX_GROUP_SIZE on the server)
+export const MAX_GROUP_SIZE = 10;
+
+export const hasTicketTiers = (event: Event) => (event.ticketTypes?.length ?? 0) > 0;
+
+export const isTierOnSale = (tier: TicketType, now = new Date()) => {
+  if (tier.salesStart && new Date(tier.salesStart) > now) return false;
+  if (tier.salesEnd && new Date(tier.salesEnd) <= now) return false;
+  return true;
+};
+
+// Cheapest ticket, used for "from $X" labels
+export const lowestPrice = (event: Event) => {
+  if (!hasTicketTiers(event)) return event.price;
+  return Math.min(...event.ticketTypes!.map(t => t.price));
+};
+
+// Preview of the server's discount: percentages of the order, fixed amounts once per order
+export const promoDiscount = (promo: AppliedPromo, subtotal: number, currency: string) => {
+  const discount = promo.type === 'percent' ? subtotal * promo.value / 100 : Math.min(promo.value, subtotal);
+  return roundAmount(discount, currency);
+};
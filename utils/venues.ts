@@ -0,0 +1,10 @@
+import { Event, Venue } from '../types';
+
+export const findVenue = (event: Pick<Event, 'venueId'>, venues: Venue[]) =>
+    event.venueId ? venues.find(v => v.id === event.venueId) : undefined;
+
+// What Event.location reads for an event at the venue, so emails, tickets and calendars need no venue lookup
+export const venueLocation = (venue: Venue) => [venue.name, venue.address].filter(Boolean).join(', ');
+
+export const mapUrl = (venue: Venue) =>
+    `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(venueLocation(venue))}`;